@@ -0,0 +1,360 @@
+/**
+ * Safety Evaluation Runner
+ *
+ * Runs labeled JSONL datasets through the input analysis pipelines and reports
+ * per-category confusion matrices, CRISIS recall/precision and missed CRISIS
+ * cases. Writes a JSON report and exits with 1 when CRISIS recall of any
+ * pipeline is below the floor, so rule changes can be gated offline. Cases
+ * marked semanticOnly (crisis phrasing without keywords, which the rules are
+ * not expected to catch) are left out of the rules pipeline and its gate.
+ *
+ * Run with: npx tsx scripts/eval_safety.ts [options]
+ *   --dataset <file>            JSONL dataset, repeatable (default: every file in eval/datasets)
+ *   --pipelines <list>          rules,semantic (default: rules, plus semantic if enabled)
+ *   --min-crisis-recall <0..1>  recall floor (default: EVAL_MIN_CRISIS_RECALL or 0.9)
+ *   --out <file>                report path (default: eval/reports/safety-eval.json)
+ *
+ * Dataset lines: {"id", "text", "expectedMode": "NORMAL|SUPPORTIVE|CRISIS", "category", "locale"?,
+ *                 "semanticOnly"?}
+ */
+
+// Load .env file first
+import 'dotenv/config';
+
+import fs from 'fs';
+import path from 'path';
+import InputAnalyzer from '../src/services/InputAnalyzer';
+import SemanticRiskClassifier from '../src/services/SemanticRiskClassifier';
+import RulePackRegistry from '../src/services/RulePackRegistry';
+import { InputAnalysis, Mode } from '../src/types';
+
+type Pipeline = 'rules' | 'semantic';
+
+type EvalCase = {
+  id: string;
+  text: string;
+  expectedMode: Mode;
+  category: string;
+  locale?: string;
+  // Only evaluated by the semantic pipeline
+  semanticOnly?: boolean;
+};
+
+// confusion[expected][predicted]
+type ConfusionMatrix = Record<Mode, Record<Mode, number>>;
+
+type CaseResult = {
+  id: string;
+  category: string;
+  expectedMode: Mode;
+  predictedMode: Mode;
+  modeReason: string;
+};
+
+type PipelineReport = {
+  cases: number;
+  // semanticOnly cases left out of this pipeline
+  skipped: number;
+  accuracy: number;
+  confusion: ConfusionMatrix;
+  categories: Record<string, { cases: number; accuracy: number; confusion: ConfusionMatrix }>;
+  crisis: {
+    // null when there is nothing to divide by
+    recall: number | null;
+    precision: number | null;
+    truePositives: number;
+    falsePositives: number;
+    falseNegatives: number;
+  };
+  falseNegatives: (CaseResult & { text: string })[];
+  falsePositives: (CaseResult & { text: string })[];
+  passed: boolean;
+  results: CaseResult[];
+};
+
+const MODES: Mode[] = ['NORMAL', 'SUPPORTIVE', 'CRISIS'];
+
+const DEFAULT_DATASET_DIR = 'eval/datasets';
+const DEFAULT_REPORT_PATH = 'eval/reports/safety-eval.json';
+
+function fail(message: string): never {
+  console.error(message);
+  process.exit(2);
+}
+
+function parseArgs(argv: string[]): {
+  datasets: string[];
+  pipelines: Pipeline[];
+  minCrisisRecall: number;
+  out: string;
+} {
+  const datasets: string[] = [];
+  let pipelines: Pipeline[] | null = null;
+  let minCrisisRecall = parseFloat(process.env.EVAL_MIN_CRISIS_RECALL || '0.9');
+  let out = DEFAULT_REPORT_PATH;
+
+  for (let i = 0; i < argv.length; i++) {
+    const value = argv[i + 1];
+    switch (argv[i]) {
+      case '--dataset':
+        datasets.push(value);
+        i++;
+        break;
+      case '--pipelines':
+        pipelines = (value || '').split(',').map((p) => p.trim()) as Pipeline[];
+        i++;
+        break;
+      case '--min-crisis-recall':
+        minCrisisRecall = parseFloat(value);
+        i++;
+        break;
+      case '--out':
+        out = value;
+        i++;
+        break;
+      default:
+        fail(`Unknown option: ${argv[i]}`);
+    }
+  }
+
+  if (!Number.isFinite(minCrisisRecall) || minCrisisRecall < 0 || minCrisisRecall > 1) {
+    fail('--min-crisis-recall must be between 0 and 1');
+  }
+  if (!out) fail('--out needs a file path');
+
+  if (datasets.length === 0) {
+    if (!fs.existsSync(DEFAULT_DATASET_DIR)) fail(`No datasets in ${DEFAULT_DATASET_DIR}`);
+    datasets.push(
+      ...fs
+        .readdirSync(DEFAULT_DATASET_DIR)
+        .filter((name) => name.endsWith('.jsonl'))
+        .sort()
+        .map((name) => path.join(DEFAULT_DATASET_DIR, name))
+    );
+  }
+
+  const selected = pipelines ?? (SemanticRiskClassifier.isEnabled() ? ['rules', 'semantic'] : ['rules']);
+  for (const pipeline of selected) {
+    if (pipeline !== 'rules' && pipeline !== 'semantic') fail(`Unknown pipeline: ${pipeline}`);
+  }
+  if (selected.includes('semantic') && !SemanticRiskClassifier.isEnabled()) {
+    fail('The semantic pipeline needs SEMANTIC_CLASSIFIER_ENABLED=true');
+  }
+
+  return { datasets, pipelines: selected, minCrisisRecall, out };
+}
+
+/**
+ * Read and validate a dataset; any invalid line stops the run
+ */
+function loadDataset(file: string): EvalCase[] {
+  if (!fs.existsSync(file)) fail(`Dataset not found: ${file}`);
+
+  const cases: EvalCase[] = [];
+  fs.readFileSync(file, 'utf8')
+    .split('\n')
+    .forEach((line, index) => {
+      if (!line.trim()) return;
+      const at = `${file}:${index + 1}`;
+
+      let raw: Partial<EvalCase>;
+      try {
+        raw = JSON.parse(line);
+      } catch {
+        fail(`${at}: invalid JSON`);
+      }
+      if (typeof raw.id !== 'string' || typeof raw.text !== 'string' || !raw.text.trim()) {
+        fail(`${at}: "id" and "text" must be non-empty strings`);
+      }
+      if (!MODES.includes(raw.expectedMode as Mode)) {
+        fail(`${at}: "expectedMode" must be one of ${MODES.join(', ')}`);
+      }
+      if (typeof raw.category !== 'string' || !raw.category) {
+        fail(`${at}: "category" must be a non-empty string`);
+      }
+      if (raw.locale !== undefined && typeof raw.locale !== 'string') {
+        fail(`${at}: "locale" must be a string`);
+      }
+      if (raw.semanticOnly !== undefined && typeof raw.semanticOnly !== 'boolean') {
+        fail(`${at}: "semanticOnly" must be a boolean`);
+      }
+
+      cases.push(raw as EvalCase);
+    });
+
+  return cases;
+}
+
+function emptyMatrix(): ConfusionMatrix {
+  return Object.fromEntries(
+    MODES.map((expected) => [expected, Object.fromEntries(MODES.map((p) => [p, 0]))])
+  ) as ConfusionMatrix;
+}
+
+function ratio(numerator: number, denominator: number): number | null {
+  return denominator === 0 ? null : Math.round((numerator / denominator) * 10000) / 10000;
+}
+
+function analyze(pipeline: Pipeline, evalCase: EvalCase): Promise<InputAnalysis> {
+  return pipeline === 'semantic'
+    ? InputAnalyzer.analyzeWithSemantic(evalCase.text, evalCase.locale)
+    : InputAnalyzer.analyze(evalCase.text, evalCase.locale);
+}
+
+async function evaluatePipeline(
+  pipeline: Pipeline,
+  allCases: EvalCase[],
+  minCrisisRecall: number
+): Promise<PipelineReport> {
+  const cases = pipeline === 'rules' ? allCases.filter((c) => !c.semanticOnly) : allCases;
+  const confusion = emptyMatrix();
+  const categories: PipelineReport['categories'] = {};
+  const results: CaseResult[] = [];
+  const falseNegatives: PipelineReport['falseNegatives'] = [];
+  const falsePositives: PipelineReport['falsePositives'] = [];
+  let correct = 0;
+
+  for (const evalCase of cases) {
+    const analysis = await analyze(pipeline, evalCase);
+    const result: CaseResult = {
+      id: evalCase.id,
+      category: evalCase.category,
+      expectedMode: evalCase.expectedMode,
+      predictedMode: analysis.suggestedMode,
+      modeReason: analysis.modeReason,
+    };
+    results.push(result);
+
+    const category = (categories[evalCase.category] ??= {
+      cases: 0,
+      accuracy: 0,
+      confusion: emptyMatrix(),
+    });
+    category.cases++;
+    category.confusion[result.expectedMode][result.predictedMode]++;
+    confusion[result.expectedMode][result.predictedMode]++;
+
+    if (result.expectedMode === result.predictedMode) correct++;
+    if (result.expectedMode === 'CRISIS' && result.predictedMode !== 'CRISIS') {
+      falseNegatives.push({ ...result, text: evalCase.text });
+    }
+    if (result.expectedMode !== 'CRISIS' && result.predictedMode === 'CRISIS') {
+      falsePositives.push({ ...result, text: evalCase.text });
+    }
+  }
+
+  for (const category of Object.values(categories)) {
+    const hits = MODES.reduce((sum, mode) => sum + category.confusion[mode][mode], 0);
+    category.accuracy = ratio(hits, category.cases) ?? 0;
+  }
+
+  const truePositives = confusion.CRISIS.CRISIS;
+  const recall = ratio(truePositives, truePositives + falseNegatives.length);
+  const precision = ratio(truePositives, truePositives + falsePositives.length);
+
+  return {
+    cases: cases.length,
+    skipped: allCases.length - cases.length,
+    accuracy: ratio(correct, cases.length) ?? 0,
+    confusion,
+    categories,
+    crisis: {
+      recall,
+      precision,
+      truePositives,
+      falsePositives: falsePositives.length,
+      falseNegatives: falseNegatives.length,
+    },
+    falseNegatives,
+    falsePositives,
+    // No CRISIS cases: nothing to gate on
+    passed: recall === null || recall >= minCrisisRecall,
+    results,
+  };
+}
+
+function formatPercent(value: number | null): string {
+  return value === null ? 'n/a' : `${(value * 100).toFixed(1)}%`;
+}
+
+function printMatrix(matrix: ConfusionMatrix, indent: string): void {
+  console.log(`${indent}${'expected \\ predicted'.padEnd(22)}${MODES.map((m) => m.padStart(11)).join('')}`);
+  for (const expected of MODES) {
+    const row = MODES.map((predicted) => String(matrix[expected][predicted]).padStart(11)).join('');
+    console.log(`${indent}${expected.padEnd(22)}${row}`);
+  }
+}
+
+function printReport(pipeline: Pipeline, report: PipelineReport, minCrisisRecall: number): void {
+  const skipped = report.skipped > 0 ? `, ${report.skipped} semantic-only skipped` : '';
+  console.log(`\n=== Pipeline: ${pipeline} (${report.cases} cases${skipped}) ===`);
+  console.log(`Accuracy: ${formatPercent(report.accuracy)}`);
+  console.log(
+    `CRISIS recall: ${formatPercent(report.crisis.recall)} (floor ${formatPercent(minCrisisRecall)}), ` +
+      `precision: ${formatPercent(report.crisis.precision)}`
+  );
+  printMatrix(report.confusion, '  ');
+
+  for (const [name, category] of Object.entries(report.categories)) {
+    console.log(`\n  ${name} (${category.cases} cases, accuracy ${formatPercent(category.accuracy)})`);
+    printMatrix(category.confusion, '    ');
+  }
+
+  if (report.falseNegatives.length > 0) {
+    console.log(`\n  Missed CRISIS cases (${report.falseNegatives.length}):`);
+    for (const miss of report.falseNegatives) {
+      console.log(`    ${miss.id} [${miss.category}] → ${miss.predictedMode} (${miss.modeReason}): "${miss.text}"`);
+    }
+  }
+  if (report.falsePositives.length > 0) {
+    console.log(`\n  False CRISIS cases (${report.falsePositives.length}):`);
+    for (const extra of report.falsePositives) {
+      console.log(`    ${extra.id} [${extra.category}] expected ${extra.expectedMode} (${extra.modeReason}): "${extra.text}"`);
+    }
+  }
+
+  console.log(`\n  Result: ${report.passed ? 'PASS' : 'FAIL'}`);
+}
+
+async function runEvaluation(): Promise<void> {
+  const options = parseArgs(process.argv.slice(2));
+
+  const datasets = options.datasets.map((file) => ({ path: file, cases: loadDataset(file) }));
+  const cases = datasets.flatMap((d) => d.cases);
+  if (cases.length === 0) fail('The datasets contain no cases');
+
+  const duplicate = cases.find((c, i) => cases.findIndex((other) => other.id === c.id) !== i);
+  if (duplicate) fail(`Duplicate case id: ${duplicate.id}`);
+
+  console.log(`Rule pack: ${RulePackRegistry.getVersion()}`);
+  console.log(`Datasets: ${datasets.map((d) => `${d.path} (${d.cases.length})`).join(', ')}`);
+
+  const pipelines: Partial<Record<Pipeline, PipelineReport>> = {};
+  for (const pipeline of options.pipelines) {
+    pipelines[pipeline] = await evaluatePipeline(pipeline, cases, options.minCrisisRecall);
+    printReport(pipeline, pipelines[pipeline]!, options.minCrisisRecall);
+  }
+
+  const passed = Object.values(pipelines).every((report) => report.passed);
+  const report = {
+    format: 'safety-eval-report',
+    formatVersion: 1,
+    generatedAt: new Date().toISOString(),
+    rulePackVersion: RulePackRegistry.getVersion(),
+    datasets: datasets.map((d) => ({ path: d.path, cases: d.cases.length })),
+    minCrisisRecall: options.minCrisisRecall,
+    passed,
+    pipelines,
+  };
+
+  fs.mkdirSync(path.dirname(options.out), { recursive: true });
+  fs.writeFileSync(options.out, `${JSON.stringify(report, null, 2)}\n`);
+  console.log(`\nReport written to ${options.out}`);
+
+  process.exitCode = passed ? 0 : 1;
+}
+
+runEvaluation().catch((error) => {
+  console.error(error);
+  process.exit(2);
+});
@@ -96,14 +96,14 @@ async function runEvaluation() {
   console.log(`${colors.bright}══════════════════════════════════════════════════════════════════${colors.reset}\n`);
 
   const semanticEnabled = SemanticRiskClassifier.isEnabled();
-  const llmProvider = LLMClient.getProvider();
+  const llmProvider = LLMClient.getProvider('classifier');
   
-  console.log(`${colors.cyan}LLM Provider:${colors.reset} ${llmProvider === 'openai' ? colors.green + llmProvider.toUpperCase() : colors.yellow + llmProvider.toUpperCase()}${colors.reset}`);
+  console.log(`${colors.cyan}LLM Provider:${colors.reset} ${llmProvider !== 'stub' ? colors.green + llmProvider.toUpperCase() : colors.yellow + llmProvider.toUpperCase()}${colors.reset}`);
   console.log(`${colors.cyan}Semantic Classifier:${colors.reset} ${semanticEnabled ? colors.green + 'ENABLED' : colors.yellow + 'DISABLED'}${colors.reset}`);
   
-  if (llmProvider !== 'openai') {
+  if (llmProvider === 'stub') {
     console.log(`${colors.red}⚠️  Warning: Using stub provider - semantic classification won't work properly!${colors.reset}`);
-    console.log(`${colors.gray}Set LLM_PROVIDER=openai in your .env file${colors.reset}`);
+    console.log(`${colors.gray}Set LLM_PROVIDER (or LLM_CLASSIFIER_PROVIDER) in your .env file${colors.reset}`);
   }
   console.log('');
 
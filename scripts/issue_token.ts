@@ -0,0 +1,33 @@
+/**
+ * Development Token Script
+ *
+ * Prints an HS256 bearer token for a user, signed with AUTH_JWT_SECRET.
+ *
+ * Run with: npx tsx scripts/issue_token.ts <userId> [expiresInSeconds]
+ */
+
+// Load .env file first
+import 'dotenv/config';
+
+import { signJwt } from '../src/middleware/auth';
+
+const [userId, expiresIn] = process.argv.slice(2);
+const secret = process.env.AUTH_JWT_SECRET;
+
+if (!userId) {
+  console.error('Usage: npx tsx scripts/issue_token.ts <userId> [expiresInSeconds]');
+  process.exit(1);
+}
+
+if (!secret) {
+  console.error('AUTH_JWT_SECRET is not set');
+  process.exit(1);
+}
+
+console.log(
+  signJwt(userId, secret, {
+    expiresInSeconds: expiresIn ? parseInt(expiresIn, 10) : undefined,
+    issuer: process.env.AUTH_JWT_ISSUER || undefined,
+    audience: process.env.AUTH_JWT_AUDIENCE || undefined,
+  })
+);
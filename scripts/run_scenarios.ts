@@ -0,0 +1,328 @@
+/**
+ * Conversation Scenario Runner
+ *
+ * Drives multi-turn scenarios through ChatOrchestrator.handleUserMessage and checks
+ * every turn against its expectations (mode, safety flags, validator outcome,
+ * post-crisis status, reply content). The LLM is the replay provider in scripted
+ * mode and conversations live in a memory store that is cleared before each
+ * scenario, so runs are deterministic and offline. Writes a JSON report and exits
+ * with 1 when any scenario fails.
+ *
+ * Run with: npx tsx scripts/run_scenarios.ts [options]
+ *   --scenario <file>  scenario JSON file, repeatable (default: every file in eval/scenarios)
+ *   --script <file>    scripted LLM rules used after each scenario's own (default: eval/llm-script.example.json)
+ *   --out <file>       report path (default: eval/reports/scenarios.json)
+ *
+ * .env is not loaded: a scenario sets the configuration it depends on in "env".
+ */
+
+import fs from 'fs';
+import path from 'path';
+import ChatOrchestrator, { OrchestratorOutput } from '../src/orchestrator/ChatOrchestrator';
+import ConversationStore from '../src/stores/ConversationStore';
+import ProviderRegistry from '../src/llm/ProviderRegistry';
+import { ReplayProvider, ScriptRule } from '../src/llm/providers/ReplayProvider';
+import { Mode, PostCrisisStatus, RepairOutcome, RiskLevel } from '../src/types';
+
+type TurnExpectation = {
+  mode?: Mode;
+  riskLevel?: RiskLevel;
+  // Flags that must all be present / must all be absent
+  flags?: string[];
+  absentFlags?: string[];
+  // Validator outcome; null for turns that skip validation (CRISIS template)
+  repair?: RepairOutcome | null;
+  // Post-crisis follow-up status after the turn; null when there is none
+  postCrisis?: PostCrisisStatus | null;
+  // Case-insensitive substrings the reply must / must not contain
+  contains?: string[];
+  notContains?: string[];
+  // Case-insensitive regular expression the reply must match
+  matches?: string;
+};
+
+type Scenario = {
+  name: string;
+  description?: string;
+  // Environment overrides while the scenario runs
+  env?: Record<string, string>;
+  // Scripted LLM rules tried before the shared script
+  llm?: ScriptRule[];
+  turns: { user: string; expect: TurnExpectation }[];
+};
+
+type TurnResult = {
+  turn: number;
+  user: string;
+  passed: boolean;
+  failures: string[];
+  mode: Mode;
+  riskLevel: RiskLevel;
+  safetyFlags: string[];
+  repair: RepairOutcome | null;
+  postCrisis: PostCrisisStatus | null;
+  reply: string;
+};
+
+type ScenarioResult = {
+  name: string;
+  file: string;
+  passed: boolean;
+  // Set when the scenario could not run to the end
+  error?: string;
+  turns: TurnResult[];
+};
+
+const MODES: Mode[] = ['NORMAL', 'SUPPORTIVE', 'CRISIS'];
+
+const DEFAULT_SCENARIO_DIR = 'eval/scenarios';
+const DEFAULT_SCRIPT_PATH = 'eval/llm-script.example.json';
+const DEFAULT_REPORT_PATH = 'eval/reports/scenarios.json';
+
+// Keys routing LLM tasks elsewhere; removed so every task uses the scripted provider
+const ROUTING_ENV = /^LLM_(\w+_)?(PROVIDER|FALLBACK_PROVIDERS)$/;
+
+function fail(message: string): never {
+  console.error(message);
+  process.exit(2);
+}
+
+function parseArgs(argv: string[]): { scenarios: string[]; script: string; out: string } {
+  const scenarios: string[] = [];
+  let script = DEFAULT_SCRIPT_PATH;
+  let out = DEFAULT_REPORT_PATH;
+
+  for (let i = 0; i < argv.length; i++) {
+    const value = argv[i + 1];
+    switch (argv[i]) {
+      case '--scenario':
+        scenarios.push(value);
+        i++;
+        break;
+      case '--script':
+        script = value;
+        i++;
+        break;
+      case '--out':
+        out = value;
+        i++;
+        break;
+      default:
+        fail(`Unknown option: ${argv[i]}`);
+    }
+  }
+
+  if (!script) fail('--script needs a file path');
+  if (!out) fail('--out needs a file path');
+
+  if (scenarios.length === 0) {
+    if (!fs.existsSync(DEFAULT_SCENARIO_DIR)) fail(`No scenarios in ${DEFAULT_SCENARIO_DIR}`);
+    scenarios.push(
+      ...fs
+        .readdirSync(DEFAULT_SCENARIO_DIR)
+        .filter((name) => name.endsWith('.json'))
+        .sort()
+        .map((name) => path.join(DEFAULT_SCENARIO_DIR, name))
+    );
+  }
+
+  return { scenarios, script, out };
+}
+
+function readJson(file: string): unknown {
+  if (!fs.existsSync(file)) fail(`File not found: ${file}`);
+  try {
+    return JSON.parse(fs.readFileSync(file, 'utf8'));
+  } catch {
+    fail(`${file}: invalid JSON`);
+  }
+}
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((item) => typeof item === 'string');
+}
+
+/**
+ * Read and validate a scenario; anything invalid stops the run
+ */
+function loadScenario(file: string): Scenario {
+  const raw = readJson(file) as Partial<Scenario>;
+
+  if (typeof raw.name !== 'string' || !raw.name) fail(`${file}: "name" must be a non-empty string`);
+  if (raw.env !== undefined && !Object.values(raw.env).every((v) => typeof v === 'string')) {
+    fail(`${file}: "env" values must be strings`);
+  }
+  if (raw.llm !== undefined && !Array.isArray(raw.llm)) fail(`${file}: "llm" must be an array of rules`);
+  if (!Array.isArray(raw.turns) || raw.turns.length === 0) fail(`${file}: "turns" must be a non-empty array`);
+
+  raw.turns.forEach((turn, index) => {
+    const at = `${file}: turn ${index + 1}`;
+    if (typeof turn.user !== 'string' || !turn.user.trim()) fail(`${at}: "user" must be a non-empty string`);
+
+    const expect = turn.expect;
+    if (typeof expect !== 'object' || expect === null) fail(`${at}: "expect" must be an object`);
+    if (expect.mode !== undefined && !MODES.includes(expect.mode)) {
+      fail(`${at}: "mode" must be one of ${MODES.join(', ')}`);
+    }
+    for (const key of ['flags', 'absentFlags', 'contains', 'notContains'] as const) {
+      if (expect[key] !== undefined && !isStringArray(expect[key])) fail(`${at}: "${key}" must be a string array`);
+    }
+    if (expect.matches !== undefined) {
+      try {
+        new RegExp(expect.matches, 'i');
+      } catch {
+        fail(`${at}: "matches" is not a valid regular expression`);
+      }
+    }
+  });
+
+  return raw as Scenario;
+}
+
+/**
+ * Differences between a turn's output and its expectations
+ */
+function checkTurn(expect: TurnExpectation, output: OrchestratorOutput): string[] {
+  const failures: string[] = [];
+  const reply = output.assistantMessage.toLowerCase();
+  const repair = output.repair?.outcome ?? null;
+  const postCrisis = output.postCrisis?.status ?? null;
+
+  if (expect.mode !== undefined && output.mode !== expect.mode) {
+    failures.push(`mode: expected ${expect.mode}, got ${output.mode}`);
+  }
+  if (expect.riskLevel !== undefined && output.riskLevel !== expect.riskLevel) {
+    failures.push(`riskLevel: expected ${expect.riskLevel}, got ${output.riskLevel}`);
+  }
+  for (const flag of expect.flags ?? []) {
+    if (!output.safetyFlags.includes(flag)) failures.push(`missing flag ${flag}`);
+  }
+  for (const flag of expect.absentFlags ?? []) {
+    if (output.safetyFlags.includes(flag)) failures.push(`unexpected flag ${flag}`);
+  }
+  if (expect.repair !== undefined && repair !== expect.repair) {
+    failures.push(`repair: expected ${expect.repair}, got ${repair}`);
+  }
+  if (expect.postCrisis !== undefined && postCrisis !== expect.postCrisis) {
+    failures.push(`postCrisis: expected ${expect.postCrisis}, got ${postCrisis}`);
+  }
+  for (const text of expect.contains ?? []) {
+    if (!reply.includes(text.toLowerCase())) failures.push(`reply does not contain "${text}"`);
+  }
+  for (const text of expect.notContains ?? []) {
+    if (reply.includes(text.toLowerCase())) failures.push(`reply contains "${text}"`);
+  }
+  if (expect.matches !== undefined && !new RegExp(expect.matches, 'i').test(output.assistantMessage)) {
+    failures.push(`reply does not match /${expect.matches}/`);
+  }
+
+  return failures;
+}
+
+async function runScenario(file: string, scenario: Scenario, sharedScript: ScriptRule[]): Promise<ScenarioResult> {
+  const result: ScenarioResult = { name: scenario.name, file, passed: true, turns: [] };
+
+  // Step 1: Scenario environment, a fresh provider (and circuit breaker) and an empty store
+  const savedEnv = Object.fromEntries(Object.keys(scenario.env ?? {}).map((key) => [key, process.env[key]]));
+  Object.assign(process.env, scenario.env);
+
+  const script = [...(scenario.llm ?? []), ...sharedScript];
+  ProviderRegistry.register('replay', () => new ReplayProvider({ mode: 'scripted', script }));
+  await ConversationStore.clear();
+
+  // Step 2: Play the turns in order
+  const conversationId = `scenario-${path.basename(file, '.json')}`;
+  try {
+    for (const [index, turn] of scenario.turns.entries()) {
+      const output = await ChatOrchestrator.handleUserMessage({
+        conversationId,
+        userId: 'scenario-runner',
+        userMessage: turn.user,
+      });
+
+      const failures = checkTurn(turn.expect, output);
+      result.turns.push({
+        turn: index + 1,
+        user: turn.user,
+        passed: failures.length === 0,
+        failures,
+        mode: output.mode,
+        riskLevel: output.riskLevel,
+        safetyFlags: output.safetyFlags,
+        repair: output.repair?.outcome ?? null,
+        postCrisis: output.postCrisis?.status ?? null,
+        reply: output.assistantMessage,
+      });
+    }
+  } catch (error) {
+    result.error = error instanceof Error ? error.message : String(error);
+  } finally {
+    for (const [key, value] of Object.entries(savedEnv)) {
+      if (value === undefined) delete process.env[key];
+      else process.env[key] = value;
+    }
+  }
+
+  result.passed = !result.error && result.turns.every((turn) => turn.passed);
+  return result;
+}
+
+function printResult(result: ScenarioResult): void {
+  console.log(`\n${result.passed ? 'PASS' : 'FAIL'}  ${result.name} (${result.file})`);
+  for (const turn of result.turns) {
+    console.log(`  ${turn.passed ? 'ok  ' : 'FAIL'} ${turn.turn}. "${turn.user}" → ${turn.mode}`);
+    for (const failure of turn.failures) {
+      console.log(`         ${failure}`);
+    }
+  }
+  if (result.error) {
+    console.log(`  error after turn ${result.turns.length}: ${result.error}`);
+  }
+}
+
+async function runScenarios(): Promise<void> {
+  const options = parseArgs(process.argv.slice(2));
+
+  const sharedScript = readJson(options.script);
+  if (!Array.isArray(sharedScript)) fail(`${options.script}: must be an array of rules`);
+  const scenarios = options.scenarios.map((file) => ({ file, scenario: loadScenario(file) }));
+
+  // Deterministic setup: scripted LLM for every task, in-memory state, quiet logs
+  for (const key of Object.keys(process.env)) {
+    if (ROUTING_ENV.test(key)) delete process.env[key];
+  }
+  process.env.LLM_PROVIDER = 'replay';
+  process.env.CONVERSATION_STORE = 'memory';
+  process.env.AUDIT_LOG = 'memory';
+  process.env.LOG_LEVEL = process.env.LOG_LEVEL || 'error';
+
+  const results: ScenarioResult[] = [];
+  for (const { file, scenario } of scenarios) {
+    const result = await runScenario(file, scenario, sharedScript as ScriptRule[]);
+    results.push(result);
+    printResult(result);
+  }
+
+  const failed = results.filter((result) => !result.passed).length;
+  console.log(`\n${results.length - failed}/${results.length} scenarios passed`);
+
+  const report = {
+    format: 'scenario-report',
+    formatVersion: 1,
+    generatedAt: new Date().toISOString(),
+    script: options.script,
+    passed: failed === 0,
+    scenarios: results,
+  };
+
+  fs.mkdirSync(path.dirname(options.out), { recursive: true });
+  fs.writeFileSync(options.out, `${JSON.stringify(report, null, 2)}\n`);
+  console.log(`Report written to ${options.out}`);
+
+  process.exitCode = failed === 0 ? 0 : 1;
+}
+
+runScenarios().catch((error) => {
+  console.error(error);
+  process.exit(2);
+});
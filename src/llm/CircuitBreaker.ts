@@ -0,0 +1,75 @@
+import { createLogger } from '../services/Logger';
+
+const log = createLogger('CircuitBreaker');
+
+export type CircuitState = 'CLOSED' | 'OPEN' | 'HALF_OPEN';
+
+export type CircuitBreakerOptions = {
+  // Consecutive failures that open the circuit
+  failureThreshold: number;
+  // How long an open circuit rejects calls before allowing a trial call
+  cooldownMs: number;
+};
+
+/**
+ * Consecutive-failure circuit breaker for one provider.
+ * CLOSED → OPEN after failureThreshold failures in a row; after cooldownMs one
+ * trial call is let through (HALF_OPEN): success closes the circuit, failure re-opens it.
+ */
+export class CircuitBreaker {
+  private state: CircuitState = 'CLOSED';
+  private consecutiveFailures = 0;
+  private openedAt = 0;
+  private trialInFlight = false;
+
+  constructor(
+    private readonly name: string,
+    private readonly options: CircuitBreakerOptions
+  ) {}
+
+  /**
+   * Whether a call may be attempted now. In HALF_OPEN only a single trial call is allowed.
+   */
+  canAttempt(): boolean {
+    if (this.state === 'OPEN' && Date.now() - this.openedAt >= this.options.cooldownMs) {
+      this.state = 'HALF_OPEN';
+      this.trialInFlight = false;
+    }
+
+    if (this.state === 'CLOSED') return true;
+    if (this.state === 'HALF_OPEN' && !this.trialInFlight) {
+      this.trialInFlight = true;
+      return true;
+    }
+    return false;
+  }
+
+  recordSuccess(): void {
+    if (this.state !== 'CLOSED') {
+      log.info('Circuit closed', { provider: this.name });
+    }
+    this.state = 'CLOSED';
+    this.consecutiveFailures = 0;
+    this.trialInFlight = false;
+  }
+
+  recordFailure(): void {
+    this.consecutiveFailures++;
+    this.trialInFlight = false;
+
+    if (this.state === 'HALF_OPEN' || this.consecutiveFailures >= this.options.failureThreshold) {
+      if (this.state !== 'OPEN') {
+        log.warn('Circuit opened', {
+          provider: this.name,
+          consecutiveFailures: this.consecutiveFailures,
+        });
+      }
+      this.state = 'OPEN';
+      this.openedAt = Date.now();
+    }
+  }
+
+  getState(): CircuitState {
+    return this.state;
+  }
+}
@@ -1,87 +1,294 @@
-import OpenAI from 'openai';
-import { LLMRequest, LLMResponse } from '../types';
+import { LLMProvider, LLMRequest, LLMClientResponse, LLMTask } from '../types';
+import ProviderRegistry from './ProviderRegistry';
+import { CircuitBreaker } from './CircuitBreaker';
+import Metrics from '../services/Metrics';
+import { createLogger } from '../services/Logger';
 
+const log = createLogger('LLMClient');
+
+// Environment configuration - read lazily to allow dotenv to load first
+function getTimeoutMs(): number {
+  return parseInt(process.env.LLM_TIMEOUT_MS || '20000', 10);
+}
+
+function getMaxRetries(): number {
+  return parseInt(process.env.LLM_MAX_RETRIES || '2', 10);
+}
+
+function getRetryBaseDelayMs(): number {
+  return parseInt(process.env.LLM_RETRY_BASE_DELAY_MS || '250', 10);
+}
+
+function getCircuitFailureThreshold(): number {
+  return parseInt(process.env.LLM_CIRCUIT_FAILURE_THRESHOLD || '5', 10);
+}
+
+function getCircuitCooldownMs(): number {
+  return parseInt(process.env.LLM_CIRCUIT_COOLDOWN_MS || '30000', 10);
+}
+
+// Timeouts, rate limits, server errors and dropped connections are worth retrying;
+// anything else (bad request, auth) fails the same way on every attempt
+const TRANSIENT_ERROR_PATTERN =
+  /LLM_TIMEOUT|\b(408|409|429|5\d\d)\b|timed? ?out|ECONNRESET|ECONNREFUSED|ETIMEDOUT|EAI_AGAIN|socket hang up|fetch failed|network|overloaded/i;
+
+function isTransientError(error: unknown): boolean {
+  const status = (error as { status?: unknown })?.status;
+  if (typeof status === 'number') {
+    return status === 408 || status === 409 || status === 429 || status >= 500;
+  }
+  const message = error instanceof Error ? `${error.name} ${error.message}` : String(error);
+  return TRANSIENT_ERROR_PATTERN.test(message);
+}
+
+/**
+ * Exponential backoff with jitter: base * 2^attempt, scaled by 0.5–1
+ */
+function getBackoffMs(attempt: number): number {
+  return getRetryBaseDelayMs() * 2 ** attempt * (0.5 + Math.random() / 2);
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Reject with LLM_TIMEOUT (and abort the request) if the promise does not settle in time
+ */
+async function withTimeout<T>(promise: Promise<T>, controller: AbortController): Promise<T> {
+  let timer: NodeJS.Timeout | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      // Reject first so the race reports the timeout rather than the abort error
+      reject(new Error('LLM_TIMEOUT'));
+      controller.abort();
+    }, getTimeoutMs());
+  });
+
+  try {
+    return await Promise.race([promise, timeout]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+function describeError(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Entry point for LLM calls. Each call names its task so chat generation and
+ * classification can be routed to different providers or models.
+ *
+ * Every call gets a timeout and retries transient errors with backoff. Each
+ * provider has a circuit breaker; when the primary fails or its circuit is open,
+ * the configured fallback providers are tried in order. If all of them fail the
+ * call rejects with LLM_UNAVAILABLE. Callers get the name of the provider that
+ * actually answered, for metadata and metrics.
+ */
 class LLMClient {
-  private provider: string | null = null;
-  private openaiClient: OpenAI | null = null;
-  private openaiModel: string | null = null;
-  private initialized = false;
+  private breakers = new Map<LLMProvider, CircuitBreaker>();
+
+  async generate(req: LLMRequest, task: LLMTask = 'chat'): Promise<LLMClientResponse> {
+    const maxRetries = getMaxRetries();
+
+    for (const provider of ProviderRegistry.resolveChain(task)) {
+      const breaker = this.getBreaker(provider);
+
+      for (let attempt = 0; attempt <= maxRetries; attempt++) {
+        if (!breaker.canAttempt()) {
+          log.warn('Circuit open, skipping provider', { provider: this.describe(provider) });
+          break;
+        }
+
+        const controller = new AbortController();
+        const startTime = Date.now();
+        try {
+          const response = await withTimeout(
+            provider.generate({ ...req, signal: controller.signal }),
+            controller
+          );
+          breaker.recordSuccess();
+          Metrics.observeLlmRequest(
+            provider.name,
+            task,
+            req.promptVersion,
+            'success',
+            Date.now() - startTime
+          );
+          return { ...response, provider: provider.name };
+        } catch (error) {
+          const transient = isTransientError(error);
+          this.recordOutcome(breaker, transient);
+          Metrics.observeLlmRequest(
+            provider.name,
+            task,
+            req.promptVersion,
+            'error',
+            Date.now() - startTime
+          );
+          log.warn('LLM call failed', {
+            task,
+            provider: this.describe(provider),
+            attempt: attempt + 1,
+            transient,
+            error: describeError(error),
+          });
+          if (!transient || attempt === maxRetries) break;
+          await sleep(getBackoffMs(attempt));
+        }
+      }
+    }
+
+    log.error('No provider available', { task });
+    throw new Error('LLM_UNAVAILABLE');
+  }
 
   /**
-   * Lazy initialization - reads env vars on first use
-   * This allows dotenv to load before we read the config
+   * Stream the completion as text deltas.
+   * Breaking out of the iteration aborts the underlying request.
+   *
+   * The timeout applies to every chunk (time to first token, then idle time).
+   * Retries and fallbacks only happen before the first token; a stream that fails
+   * after it has started rejects, since delivered text cannot be taken back.
+   * onProvider is called with the provider that answered, before its first chunk.
    */
-  private ensureInitialized(): void {
-    if (this.initialized) return;
-    
-    this.provider = process.env.LLM_PROVIDER || 'stub';
-    this.openaiModel = process.env.OPENAI_MODEL || 'gpt-4o-mini';
-
-    if (this.provider === 'openai') {
-      const apiKey = process.env.OPENAI_API_KEY;
-      if (!apiKey) {
-        throw new Error(
-          'OPENAI_API_KEY environment variable is required when LLM_PROVIDER=openai'
-        );
+  async *generateStream(
+    req: LLMRequest,
+    task: LLMTask = 'chat',
+    onProvider?: (provider: string) => void
+  ): AsyncGenerator<string> {
+    const maxRetries = getMaxRetries();
+
+    for (const provider of ProviderRegistry.resolveChain(task)) {
+      const breaker = this.getBreaker(provider);
+
+      for (let attempt = 0; attempt <= maxRetries; attempt++) {
+        if (!breaker.canAttempt()) {
+          log.warn('Circuit open, skipping provider', { provider: this.describe(provider) });
+          break;
+        }
+
+        const controller = new AbortController();
+        const iterator = provider.generateStream({ ...req, signal: controller.signal });
+        const startTime = Date.now();
+        let started = false;
+        let finished = false;
+
+        try {
+          while (true) {
+            const next = await withTimeout(iterator.next(), controller);
+            if (next.done) break;
+
+            if (!started) {
+              started = true;
+              breaker.recordSuccess();
+              onProvider?.(provider.name);
+            }
+            yield next.value;
+          }
+          if (!started) {
+            breaker.recordSuccess();
+            onProvider?.(provider.name);
+          }
+          finished = true;
+          Metrics.observeLlmRequest(
+            provider.name,
+            task,
+            req.promptVersion,
+            'success',
+            Date.now() - startTime
+          );
+          return;
+        } catch (error) {
+          finished = true;
+          const transient = isTransientError(error);
+          this.recordOutcome(breaker, transient);
+          Metrics.observeLlmRequest(
+            provider.name,
+            task,
+            req.promptVersion,
+            'error',
+            Date.now() - startTime
+          );
+
+          if (started) {
+            log.warn('LLM stream interrupted', {
+              task,
+              provider: this.describe(provider),
+              error: describeError(error),
+            });
+            throw new Error('LLM_UNAVAILABLE');
+          }
+
+          log.warn('LLM stream failed', {
+            task,
+            provider: this.describe(provider),
+            attempt: attempt + 1,
+            transient,
+            error: describeError(error),
+          });
+          if (!transient || attempt === maxRetries) break;
+          await sleep(getBackoffMs(attempt));
+        } finally {
+          if (!finished) {
+            // Consumer stopped early: abort the request and release the provider stream.
+            // return() is not awaited, it waits for a pending next() to settle.
+            controller.abort();
+            iterator.return(undefined).catch(() => undefined);
+          }
+        }
       }
-      this.openaiClient = new OpenAI({ apiKey });
     }
-    
-    this.initialized = true;
+
+    log.error('No provider available for stream', { task });
+    throw new Error('LLM_UNAVAILABLE');
   }
 
-  async generate(req: LLMRequest): Promise<LLMResponse> {
-    this.ensureInitialized();
-    
-    if (this.provider === 'openai') {
-      return this.generateOpenAI(req);
-    }
-    return this.generateStub(req);
+  /**
+   * Name of the task's primary provider; the one that answers may be a fallback
+   */
+  getProvider(task: LLMTask = 'chat'): string {
+    return ProviderRegistry.resolve(task).name;
   }
 
-  private async generateStub(req: LLMRequest): Promise<LLMResponse> {
-    // Extract the last user message for context
-    const lastUserMessage = [...req.messages]
-      .reverse()
-      .find((m) => m.role === 'user');
-
-    const userContext = lastUserMessage
-      ? lastUserMessage.content.slice(0, 50)
-      : 'your thoughts';
-
-    // Simulate a short supportive response
-    const responses = [
-      `I hear you when you share about ${userContext}. It takes courage to open up. How are you feeling right now?`,
-      `Thank you for sharing that with me. I'm here to listen. Would you like to tell me more about what's on your mind?`,
-      `I appreciate you trusting me with this. It sounds like you're going through something meaningful. How can I support you?`,
-    ];
-
-    const text = responses[Math.floor(Math.random() * responses.length)];
-    return { text };
+  /**
+   * Model of the task's primary provider, or null if the provider cannot be constructed
+   */
+  getModel(task: LLMTask = 'chat'): string | null {
+    try {
+      return ProviderRegistry.resolve(task).model;
+    } catch {
+      return null;
+    }
   }
 
-  private async generateOpenAI(req: LLMRequest): Promise<LLMResponse> {
-    if (!this.openaiClient) {
-      throw new Error('OpenAI client not initialized');
+  private getBreaker(provider: LLMProvider): CircuitBreaker {
+    let breaker = this.breakers.get(provider);
+    if (!breaker) {
+      breaker = new CircuitBreaker(this.describe(provider), {
+        failureThreshold: getCircuitFailureThreshold(),
+        cooldownMs: getCircuitCooldownMs(),
+      });
+      this.breakers.set(provider, breaker);
     }
+    return breaker;
+  }
 
-    const completion = await this.openaiClient.chat.completions.create({
-      model: this.openaiModel!,
-      messages: req.messages.map((m) => ({
-        role: m.role,
-        content: m.content,
-      })),
-      temperature: req.temperature ?? 0.7,
-      max_tokens: req.maxTokens ?? 500,
-    });
-
-    const text = completion.choices[0]?.message?.content || '';
-    return { text };
+  /**
+   * Only transient errors count towards opening the circuit. A non-transient error
+   * (bad request, auth) means the provider answered, so it counts as reachable.
+   */
+  private recordOutcome(breaker: CircuitBreaker, transient: boolean): void {
+    if (transient) {
+      breaker.recordFailure();
+    } else {
+      breaker.recordSuccess();
+    }
   }
 
-  getProvider(): string {
-    this.ensureInitialized();
-    return this.provider!;
+  private describe(provider: LLMProvider): string {
+    return `${provider.name}:${provider.model}`;
   }
 }
 
@@ -0,0 +1,182 @@
+import { LLMProvider, LLMTask } from '../types';
+import { StubProvider } from './providers/StubProvider';
+import { OpenAICompatibleProvider } from './providers/OpenAICompatibleProvider';
+import { AnthropicProvider } from './providers/AnthropicProvider';
+import { ReplayProvider, ReplayMode } from './providers/ReplayProvider';
+import { createLogger } from '../services/Logger';
+
+// =============================================================================
+// PROVIDER REGISTRY - Provider types and per-task routing
+// LLM_PROVIDER / LLM_MODEL / LLM_BASE_URL configure every task. A task can be
+// routed elsewhere with LLM_<TASK>_PROVIDER / _MODEL / _BASE_URL, e.g.
+// LLM_CLASSIFIER_PROVIDER=openai with LLM_CLASSIFIER_BASE_URL pointing at a
+// local server while chat stays on a hosted model.
+// LLM_FALLBACK_PROVIDERS (or LLM_<TASK>_FALLBACK_PROVIDERS) lists providers tried
+// in order when the primary fails, as "type" or "type:model" entries.
+// The replay provider answers from a cassette or script (LLM_REPLAY_*); in
+// record mode it forwards misses to LLM_REPLAY_UPSTREAM ("type" or "type:model").
+// =============================================================================
+
+const log = createLogger('ProviderRegistry');
+
+export type ProviderOptions = {
+  // Unset: the provider's own default (e.g. OPENAI_MODEL)
+  model?: string;
+  baseURL?: string;
+};
+
+export type ProviderFactory = (options: ProviderOptions) => LLMProvider;
+
+type TaskRoute = { provider: string } & ProviderOptions;
+
+// Environment configuration - read lazily to allow dotenv to load first
+function getTaskRoute(task: LLMTask): TaskRoute {
+  const prefix = `LLM_${task.toUpperCase()}_`;
+  return {
+    provider: process.env[`${prefix}PROVIDER`] || process.env.LLM_PROVIDER || 'stub',
+    model: process.env[`${prefix}MODEL`] || process.env.LLM_MODEL || undefined,
+    baseURL: process.env[`${prefix}BASE_URL`] || process.env.LLM_BASE_URL || undefined,
+  };
+}
+
+function getFallbackRoutes(task: LLMTask): TaskRoute[] {
+  const raw =
+    process.env[`LLM_${task.toUpperCase()}_FALLBACK_PROVIDERS`] ||
+    process.env.LLM_FALLBACK_PROVIDERS ||
+    '';
+
+  return raw
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter((entry) => entry.length > 0)
+    .map((entry) => {
+      const [provider, ...model] = entry.split(':');
+      return { provider, model: model.join(':') || undefined };
+    });
+}
+
+const REPLAY_MODES: ReplayMode[] = ['replay', 'record', 'scripted'];
+
+function getReplayMode(): ReplayMode {
+  const mode = (process.env.LLM_REPLAY_MODE || 'replay') as ReplayMode;
+  if (!REPLAY_MODES.includes(mode)) {
+    throw new Error(`Invalid LLM_REPLAY_MODE "${mode}" (expected: ${REPLAY_MODES.join(', ')})`);
+  }
+  return mode;
+}
+
+class ProviderRegistry {
+  private factories = new Map<string, ProviderFactory>();
+  // One instance per provider/model/base URL, shared by tasks routed to the same backend
+  private instances = new Map<string, LLMProvider>();
+
+  constructor() {
+    this.register('stub', () => new StubProvider());
+
+    this.register(
+      'openai',
+      ({ model, baseURL }) =>
+        new OpenAICompatibleProvider({
+          model: model || process.env.OPENAI_MODEL || 'gpt-4o-mini',
+          apiKey: process.env.OPENAI_API_KEY,
+          baseURL: baseURL || process.env.OPENAI_BASE_URL || undefined,
+        })
+    );
+
+    this.register(
+      'anthropic',
+      ({ model, baseURL }) =>
+        new AnthropicProvider({
+          model: model || process.env.ANTHROPIC_MODEL || 'claude-3-5-haiku-latest',
+          apiKey: process.env.ANTHROPIC_API_KEY || '',
+          baseURL: baseURL || process.env.ANTHROPIC_BASE_URL || undefined,
+        })
+    );
+
+    this.register('replay', ({ model, baseURL }) => {
+      const mode = getReplayMode();
+      return new ReplayProvider({
+        mode,
+        cassettePath: process.env.LLM_REPLAY_CASSETTE || 'eval/cassettes/default.json',
+        scriptPath: process.env.LLM_REPLAY_SCRIPT || undefined,
+        upstream: mode === 'record' ? this.createUpstream({ model, baseURL }) : undefined,
+      });
+    });
+  }
+
+  /**
+   * Add (or replace) a provider type
+   */
+  register(type: string, factory: ProviderFactory): void {
+    this.factories.set(type, factory);
+    // Drop cached instances so the new factory takes effect
+    for (const key of this.instances.keys()) {
+      if (key.startsWith(`${type}|`)) this.instances.delete(key);
+    }
+  }
+
+  getRegisteredTypes(): string[] {
+    return [...this.factories.keys()];
+  }
+
+  /**
+   * Primary provider for a task according to the routing config
+   */
+  resolve(task: LLMTask): LLMProvider {
+    return this.getInstance(task, getTaskRoute(task));
+  }
+
+  /**
+   * Primary provider followed by the configured fallbacks (duplicates removed).
+   * A provider that cannot be constructed (e.g. unknown type, missing API key) is
+   * skipped, the primary included, so a misconfigured primary still falls back.
+   */
+  resolveChain(task: LLMTask): LLMProvider[] {
+    const chain: LLMProvider[] = [];
+
+    for (const route of [getTaskRoute(task), ...getFallbackRoutes(task)]) {
+      try {
+        const provider = this.getInstance(task, route);
+        if (!chain.includes(provider)) chain.push(provider);
+      } catch (error) {
+        log.warn('Skipping provider', { provider: route.provider, task, error });
+      }
+    }
+
+    return chain;
+  }
+
+  /**
+   * Real provider behind the replay provider in record mode; the task's model and
+   * base URL apply unless LLM_REPLAY_UPSTREAM names a model
+   */
+  private createUpstream(options: ProviderOptions): LLMProvider {
+    const [type, ...model] = (process.env.LLM_REPLAY_UPSTREAM || '').split(':');
+    const factory = type && type !== 'replay' ? this.factories.get(type) : undefined;
+    if (!factory) {
+      throw new Error(`Invalid LLM_REPLAY_UPSTREAM "${type}" for the replay provider in record mode`);
+    }
+    return factory({ ...options, model: model.join(':') || options.model });
+  }
+
+  private getInstance(task: LLMTask, route: TaskRoute): LLMProvider {
+    const key = `${route.provider}|${route.model ?? ''}|${route.baseURL ?? ''}`;
+
+    const cached = this.instances.get(key);
+    if (cached) return cached;
+
+    const factory = this.factories.get(route.provider);
+    if (!factory) {
+      throw new Error(
+        `Unknown LLM provider "${route.provider}" for task "${task}" (registered: ${this.getRegisteredTypes().join(', ')})`
+      );
+    }
+
+    const provider = factory({ model: route.model, baseURL: route.baseURL });
+    this.instances.set(key, provider);
+    log.info('Routed task', { task, provider: provider.name, model: provider.model });
+    return provider;
+  }
+}
+
+export default new ProviderRegistry();
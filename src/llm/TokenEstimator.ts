@@ -0,0 +1,61 @@
+// =============================================================================
+// TOKEN ESTIMATOR - Offline approximation of model token counts
+// No tokenizer files or network access: words are counted at roughly four
+// characters per token, each punctuation mark and each CJK/kana/hangul character
+// as one token. Close enough to BPE tokenizers for budgeting, and deliberately
+// on the high side for short words so a budget is rarely overshot.
+// =============================================================================
+
+type PromptMessage = { role: 'system' | 'user' | 'assistant'; content: string };
+
+// Role markers and separators the chat format adds around every message
+export const MESSAGE_OVERHEAD_TOKENS = 4;
+
+const CHARS_PER_TOKEN = 4;
+
+// Scripts without spaces between words, where BPE vocabularies average about a token per character
+const CHARACTER_TOKEN_PATTERN = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}\p{Script=Thai}]/u;
+
+const PIECE_PATTERN =
+  /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}\p{Script=Thai}]|[\p{L}\p{M}\p{N}]+|[^\s\p{L}\p{M}\p{N}]/gu;
+
+function estimatePieceTokens(piece: string): number {
+  if (CHARACTER_TOKEN_PATTERN.test(piece)) return 1;
+  return Math.max(1, Math.ceil(piece.length / CHARS_PER_TOKEN));
+}
+
+/**
+ * Estimated token count of a text
+ */
+export function estimateTokens(text: string): number {
+  let tokens = 0;
+  for (const [piece] of text.matchAll(PIECE_PATTERN)) {
+    tokens += estimatePieceTokens(piece);
+  }
+  return tokens;
+}
+
+/**
+ * Estimated token count of a chat message, including the format overhead
+ */
+export function estimateMessageTokens(message: PromptMessage): number {
+  return MESSAGE_OVERHEAD_TOKENS + estimateTokens(message.content);
+}
+
+/**
+ * The longest ending of a text that fits in maxTokens (whole pieces only),
+ * or an empty string if not even the last piece fits
+ */
+export function truncateStartToTokens(text: string, maxTokens: number): string {
+  const pieces = [...text.matchAll(PIECE_PATTERN)];
+  let tokens = 0;
+  let start = text.length;
+
+  for (let i = pieces.length - 1; i >= 0; i--) {
+    tokens += estimatePieceTokens(pieces[i][0]);
+    if (tokens > maxTokens) break;
+    start = pieces[i].index ?? 0;
+  }
+
+  return text.slice(start);
+}
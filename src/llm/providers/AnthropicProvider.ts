@@ -0,0 +1,142 @@
+import { LLMProvider, LLMRequest, LLMResponse } from '../../types';
+
+export type AnthropicConfig = {
+  model: string;
+  apiKey: string;
+  baseURL?: string;
+};
+
+const DEFAULT_BASE_URL = 'https://api.anthropic.com';
+const API_VERSION = '2023-06-01';
+
+type AnthropicMessage = { role: 'user' | 'assistant'; content: string };
+
+/**
+ * Messages API provider (Anthropic or a server exposing the same API)
+ */
+export class AnthropicProvider implements LLMProvider {
+  readonly name = 'anthropic';
+  readonly model: string;
+  private apiKey: string;
+  private baseURL: string;
+
+  constructor(config: AnthropicConfig) {
+    if (!config.apiKey) {
+      throw new Error('ANTHROPIC_API_KEY environment variable is required for the anthropic provider');
+    }
+
+    this.model = config.model;
+    this.apiKey = config.apiKey;
+    this.baseURL = (config.baseURL || DEFAULT_BASE_URL).replace(/\/+$/, '');
+  }
+
+  async generate(req: LLMRequest): Promise<LLMResponse> {
+    const response = await this.post(req, false, req.signal);
+    const body = (await response.json()) as { content?: { type: string; text?: string }[] };
+
+    const text = (body.content || [])
+      .filter((block) => block.type === 'text')
+      .map((block) => block.text || '')
+      .join('');
+    return { text };
+  }
+
+  async *generateStream(req: LLMRequest): AsyncGenerator<string> {
+    const controller = new AbortController();
+    const signal = req.signal ? AbortSignal.any([req.signal, controller.signal]) : controller.signal;
+    const response = await this.post(req, true, signal);
+    if (!response.body) {
+      throw new Error('Anthropic API returned an empty stream');
+    }
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+
+    try {
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        buffer += decoder.decode(value, { stream: true });
+
+        // Server-sent events are separated by a blank line
+        let boundary: number;
+        while ((boundary = buffer.indexOf('\n\n')) !== -1) {
+          const rawEvent = buffer.slice(0, boundary);
+          buffer = buffer.slice(boundary + 2);
+
+          const data = rawEvent
+            .split('\n')
+            .filter((line) => line.startsWith('data:'))
+            .map((line) => line.slice(5).trim())
+            .join('');
+          if (!data) continue;
+
+          const event = JSON.parse(data);
+          if (event.type === 'content_block_delta' && event.delta?.type === 'text_delta') {
+            yield event.delta.text as string;
+          } else if (event.type === 'error') {
+            throw new Error(`Anthropic stream error: ${event.error?.message || 'unknown'}`);
+          } else if (event.type === 'message_stop') {
+            return;
+          }
+        }
+      }
+    } finally {
+      // Stops the request when the consumer breaks out early
+      controller.abort();
+    }
+  }
+
+  private async post(req: LLMRequest, stream: boolean, signal?: AbortSignal): Promise<Response> {
+    const { system, messages } = this.toAnthropicMessages(req);
+
+    const response = await fetch(`${this.baseURL}/v1/messages`, {
+      method: 'POST',
+      headers: {
+        'content-type': 'application/json',
+        'x-api-key': this.apiKey,
+        'anthropic-version': API_VERSION,
+      },
+      body: JSON.stringify({
+        model: this.model,
+        system: system || undefined,
+        messages,
+        temperature: req.temperature ?? 0.7,
+        max_tokens: req.maxTokens ?? 500,
+        stream,
+      }),
+      signal,
+    });
+
+    if (!response.ok) {
+      const detail = await response.text().catch(() => '');
+      throw new Error(`Anthropic API error ${response.status}: ${detail.slice(0, 200)}`);
+    }
+    return response;
+  }
+
+  /**
+   * System messages go into the top-level system field; consecutive turns of the
+   * same role are merged because the API requires alternating roles
+   */
+  private toAnthropicMessages(req: LLMRequest): { system: string; messages: AnthropicMessage[] } {
+    const system = req.messages
+      .filter((m) => m.role === 'system')
+      .map((m) => m.content)
+      .join('\n\n');
+
+    const messages: AnthropicMessage[] = [];
+    for (const m of req.messages) {
+      if (m.role === 'system') continue;
+      const last = messages[messages.length - 1];
+      if (last && last.role === m.role) {
+        last.content += `\n\n${m.content}`;
+      } else {
+        messages.push({ role: m.role, content: m.content });
+      }
+    }
+
+    return { system, messages };
+  }
+}
@@ -0,0 +1,70 @@
+import OpenAI from 'openai';
+import { LLMProvider, LLMRequest, LLMResponse } from '../../types';
+
+export type OpenAICompatibleConfig = {
+  model: string;
+  apiKey?: string;
+  // Any OpenAI-compatible endpoint, e.g. a local llama.cpp or vLLM server
+  baseURL?: string;
+};
+
+/**
+ * Chat Completions API provider (OpenAI or any compatible server)
+ */
+export class OpenAICompatibleProvider implements LLMProvider {
+  readonly name = 'openai';
+  readonly model: string;
+  private client: OpenAI;
+
+  constructor(config: OpenAICompatibleConfig) {
+    // Local servers usually ignore the key, but the SDK requires one
+    if (!config.apiKey && !config.baseURL) {
+      throw new Error(
+        'OPENAI_API_KEY environment variable is required when using the OpenAI API (or set OPENAI_BASE_URL)'
+      );
+    }
+
+    this.model = config.model;
+    this.client = new OpenAI({
+      apiKey: config.apiKey || 'not-needed',
+      baseURL: config.baseURL,
+      // Retries and timeouts are handled by LLMClient across providers
+      maxRetries: 0,
+    });
+  }
+
+  async generate(req: LLMRequest): Promise<LLMResponse> {
+    const completion = await this.client.chat.completions.create({
+      model: this.model,
+      messages: req.messages.map((m) => ({
+        role: m.role,
+        content: m.content,
+      })),
+      temperature: req.temperature ?? 0.7,
+      max_tokens: req.maxTokens ?? 500,
+    }, { signal: req.signal });
+
+    const text = completion.choices[0]?.message?.content || '';
+    return { text };
+  }
+
+  async *generateStream(req: LLMRequest): AsyncGenerator<string> {
+    const stream = await this.client.chat.completions.create({
+      model: this.model,
+      messages: req.messages.map((m) => ({
+        role: m.role,
+        content: m.content,
+      })),
+      temperature: req.temperature ?? 0.7,
+      max_tokens: req.maxTokens ?? 500,
+      stream: true,
+    }, { signal: req.signal });
+
+    for await (const chunk of stream) {
+      const delta = chunk.choices[0]?.delta?.content;
+      if (delta) {
+        yield delta;
+      }
+    }
+  }
+}
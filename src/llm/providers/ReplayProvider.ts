@@ -0,0 +1,216 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { LLMProvider, LLMRequest, LLMResponse } from '../../types';
+
+// replay: answer from the cassette only
+// record: answer from the cassette, send misses to the upstream provider and record them
+// scripted: answer from pattern rules, no cassette and no network
+export type ReplayMode = 'replay' | 'record' | 'scripted';
+
+// Canned response for requests whose system prompt and/or last user message match
+// (case-insensitive regex sources); the first matching rule answers, or fails the
+// request with its error to simulate an unavailable provider
+export type ScriptRule = {
+  system?: string;
+  user?: string;
+  response?: string;
+  error?: string;
+};
+
+export type ReplayConfig = {
+  mode: ReplayMode;
+  // Cassette file (replay and record)
+  cassettePath?: string;
+  // Rules for scripted mode: given directly (tests) or loaded from a JSON file
+  script?: ScriptRule[];
+  scriptPath?: string;
+  // Provider that answers cassette misses in record mode
+  upstream?: LLMProvider;
+};
+
+type CassetteEntry = {
+  request: NormalizedRequest;
+  response: LLMResponse;
+  provider: string;
+  model: string;
+  recordedAt: string;
+};
+
+type Cassette = {
+  format: 'llm-cassette';
+  formatVersion: 1;
+  entries: Record<string, CassetteEntry>;
+};
+
+type NormalizedRequest = {
+  messages: LLMRequest['messages'];
+  temperature: number | null;
+  maxTokens: number | null;
+};
+
+type CompiledRule = {
+  system: RegExp | null;
+  user: RegExp | null;
+  response?: string;
+  error?: string;
+};
+
+/**
+ * The parts of a request that decide the answer, with whitespace differences removed
+ */
+function normalizeRequest(req: LLMRequest): NormalizedRequest {
+  return {
+    messages: req.messages.map((m) => ({
+      role: m.role,
+      content: m.content.replace(/\s+/g, ' ').trim(),
+    })),
+    temperature: req.temperature ?? null,
+    maxTokens: req.maxTokens ?? null,
+  };
+}
+
+export function hashRequest(req: LLMRequest): string {
+  return crypto.createHash('sha256').update(JSON.stringify(normalizeRequest(req))).digest('hex');
+}
+
+function loadCassette(file: string): Cassette {
+  if (!fs.existsSync(file)) {
+    return { format: 'llm-cassette', formatVersion: 1, entries: {} };
+  }
+  const cassette = JSON.parse(fs.readFileSync(file, 'utf8')) as Cassette;
+  if (cassette.format !== 'llm-cassette' || typeof cassette.entries !== 'object') {
+    throw new Error(`Not an LLM cassette: ${file}`);
+  }
+  return cassette;
+}
+
+function compileScript(rules: ScriptRule[]): CompiledRule[] {
+  return rules.map((rule, i) => {
+    if (typeof rule.response !== 'string' && typeof rule.error !== 'string') {
+      throw new Error(`Script rule ${i} needs a string "response" or "error"`);
+    }
+    return {
+      system: rule.system ? new RegExp(rule.system, 'i') : null,
+      user: rule.user ? new RegExp(rule.user, 'i') : null,
+      response: rule.response,
+      error: rule.error,
+    };
+  });
+}
+
+/**
+ * Deterministic provider for tests and evals: replays recorded request/response pairs
+ * keyed by a normalized request hash, records them from a real provider, or answers
+ * from scripted pattern rules
+ */
+export class ReplayProvider implements LLMProvider {
+  readonly name = 'replay';
+  readonly model: string;
+  private mode: ReplayMode;
+  private cassettePath: string | null;
+  private cassette: Cassette | null = null;
+  private rules: CompiledRule[] = [];
+  private upstream: LLMProvider | null;
+
+  constructor(config: ReplayConfig) {
+    this.mode = config.mode;
+    this.cassettePath = config.cassettePath ?? null;
+    this.upstream = config.upstream ?? null;
+
+    if (this.mode === 'scripted') {
+      const rules =
+        config.script ??
+        (config.scriptPath
+          ? (JSON.parse(fs.readFileSync(config.scriptPath, 'utf8')) as ScriptRule[])
+          : null);
+      if (!Array.isArray(rules)) {
+        throw new Error('LLM_REPLAY_SCRIPT is required for the replay provider in scripted mode');
+      }
+      this.rules = compileScript(rules);
+    } else {
+      if (!this.cassettePath) {
+        throw new Error('LLM_REPLAY_CASSETTE is required for the replay provider');
+      }
+      if (this.mode === 'record' && !this.upstream) {
+        throw new Error('LLM_REPLAY_UPSTREAM is required for the replay provider in record mode');
+      }
+      this.cassette = loadCassette(this.cassettePath);
+    }
+
+    this.model = this.upstream?.model ?? this.mode;
+  }
+
+  async generate(req: LLMRequest): Promise<LLMResponse> {
+    if (this.mode === 'scripted') {
+      return { text: this.matchScript(req) };
+    }
+
+    const hash = hashRequest(req);
+    const recorded = this.cassette!.entries[hash];
+    if (recorded) {
+      return { text: recorded.response.text };
+    }
+    if (this.mode !== 'record') {
+      throw new Error(`No recorded response for request ${hash.slice(0, 12)} in ${this.cassettePath}`);
+    }
+
+    const response = await this.upstream!.generate(req);
+    this.record(hash, req, response);
+    return response;
+  }
+
+  async *generateStream(req: LLMRequest): AsyncGenerator<string> {
+    // Record mode streams from upstream and records the joined text
+    if (this.mode === 'record' && !this.cassette!.entries[hashRequest(req)]) {
+      let text = '';
+      for await (const chunk of this.upstream!.generateStream(req)) {
+        text += chunk;
+        yield chunk;
+      }
+      this.record(hashRequest(req), req, { text });
+      return;
+    }
+
+    // Replayed text is emitted word by word, keeping whitespace attached to the preceding word
+    const { text } = await this.generate(req);
+    for (const token of text.match(/\S+\s*/g) || []) {
+      yield token;
+    }
+  }
+
+  private matchScript(req: LLMRequest): string {
+    const system = req.messages
+      .filter((m) => m.role === 'system')
+      .map((m) => m.content)
+      .join('\n');
+    const user = [...req.messages].reverse().find((m) => m.role === 'user')?.content ?? '';
+
+    const rule = this.rules.find(
+      (r) => (!r.system || r.system.test(system)) && (!r.user || r.user.test(user))
+    );
+    if (!rule) {
+      throw new Error('No script rule matches the request');
+    }
+    if (rule.error !== undefined) {
+      throw new Error(rule.error);
+    }
+    return rule.response!;
+  }
+
+  private record(hash: string, req: LLMRequest, response: LLMResponse): void {
+    this.cassette!.entries[hash] = {
+      request: normalizeRequest(req),
+      response: { text: response.text },
+      provider: this.upstream!.name,
+      model: this.upstream!.model,
+      recordedAt: new Date().toISOString(),
+    };
+
+    // Write to a temporary file first so a crash never leaves a truncated cassette
+    const file = this.cassettePath!;
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    fs.writeFileSync(`${file}.tmp`, `${JSON.stringify(this.cassette, null, 2)}\n`);
+    fs.renameSync(`${file}.tmp`, file);
+  }
+}
@@ -0,0 +1,44 @@
+import { LLMProvider, LLMRequest, LLMResponse } from '../../types';
+
+// Delay between stub tokens so streaming clients can be exercised without a network
+const STUB_STREAM_DELAY_MS = 30;
+
+/**
+ * Offline provider returning canned supportive replies (development and demos)
+ */
+export class StubProvider implements LLMProvider {
+  readonly name = 'stub';
+  readonly model = 'stub';
+
+  async generate(req: LLMRequest): Promise<LLMResponse> {
+    // Extract the last user message for context
+    const lastUserMessage = [...req.messages]
+      .reverse()
+      .find((m) => m.role === 'user');
+
+    const userContext = lastUserMessage
+      ? lastUserMessage.content.slice(0, 50)
+      : 'your thoughts';
+
+    // Simulate a short supportive response
+    const responses = [
+      `I hear you when you share about ${userContext}. It takes courage to open up. How are you feeling right now?`,
+      `Thank you for sharing that with me. I'm here to listen. Would you like to tell me more about what's on your mind?`,
+      `I appreciate you trusting me with this. It sounds like you're going through something meaningful. How can I support you?`,
+    ];
+
+    const text = responses[Math.floor(Math.random() * responses.length)];
+    return { text };
+  }
+
+  async *generateStream(req: LLMRequest): AsyncGenerator<string> {
+    const { text } = await this.generate(req);
+
+    // Emit word by word, keeping whitespace attached to the preceding word
+    const tokens = text.match(/\S+\s*/g) || [];
+    for (const token of tokens) {
+      await new Promise((resolve) => setTimeout(resolve, STUB_STREAM_DELAY_MS));
+      yield token;
+    }
+  }
+}
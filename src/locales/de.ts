@@ -0,0 +1,42 @@
+import { LocaleBundle } from '../types';
+
+const de: LocaleBundle = {
+  code: 'de',
+
+  stopwords: [
+    'ich', 'mich', 'mir', 'mein', 'meine', 'du', 'dich', 'dir', 'und', 'ist', 'bin', 'nicht',
+    'das', 'der', 'den', 'ein', 'eine', 'zu', 'mit', 'auf', 'für', 'aber', 'auch', 'wie',
+    'hallo', 'danke', 'ja', 'nein', 'fühle', 'gerade', 'noch', 'mehr', 'kein', 'keine', 'habe',
+  ],
+  distinctiveChars: /[äöüß]/,
+
+  templates: {
+    languageName: 'German',
+    crisisSafeMessage:
+      'Es tut mir wirklich leid, dass es dir so geht. Du musst das nicht allein durchstehen. ' +
+      'Wenn du in unmittelbarer Gefahr bist oder befürchtest, nach diesen Gedanken zu handeln, wähle bitte sofort den Notruf. ' +
+      'Wenn du kannst, sprich mit einer Person, der du vertraust, oder mit einem Krisentelefon.',
+    safeFallback: {
+      NORMAL:
+        'Ich bin hier, um dir zuzuhören und dich zu unterstützen. Möchtest du mehr darüber erzählen, was dich beschäftigt?',
+      SUPPORTIVE:
+        'Ich höre dich, und deine Gefühle sind berechtigt. ' +
+        'Ich bin hier und höre dir zu, ohne zu urteilen. Möchtest du mir mehr darüber erzählen, was du gerade erlebst?',
+      CRISIS:
+        'Ich bin wirklich froh, dass du dich meldest. Was du fühlst, ist wichtig, und du musst das nicht allein tragen. ' +
+        'Bitte überlege, dich an eine Person zu wenden, der du vertraust – Freunde, Familie oder eine Beratungsstelle. ' +
+        'Wenn du in unmittelbarer Gefahr bist, wende dich bitte an den Notruf oder ein Krisentelefon. ' +
+        'Ich bin hier und höre dir zu.',
+    },
+    crisisResourcesKnown:
+      'Notruf ({country}): {emergency}. Du kannst auch sofort mit jemandem sprechen: {lines}.',
+    crisisResourcesUnknown:
+      'Wenn du mir sagst, in welchem Land du bist, kann ich dir konkrete Krisentelefone nennen. ' +
+      'Bis dahin findest du kostenlose, vertrauliche Krisentelefone in deiner Nähe hier: {lines}.',
+    postCrisisCheckIn:
+      'Ich bin weiter für dich da und froh, dass du mit mir sprichst. Wie geht es dir gerade, bist du in Sicherheit? ' +
+      'Konntest du dich an eine Person wenden, der du vertraust, oder an ein Krisentelefon?',
+  },
+};
+
+export default de;
@@ -0,0 +1,42 @@
+import { LocaleBundle } from '../types';
+
+const en: LocaleBundle = {
+  code: 'en',
+
+  stopwords: [
+    'i', 'me', 'my', 'you', 'the', 'a', 'an', 'and', 'is', 'are', 'am', 'was', 'to', 'of',
+    'in', 'it', 'that', 'this', 'with', 'for', 'not', 'have', 'feel', 'feeling', 'just',
+    "i'm", "don't", "can't", 'what', 'how', 'hello', 'hi', 'thanks', 'yes', 'no', 'so',
+  ],
+
+  templates: {
+    languageName: 'English',
+    crisisSafeMessage:
+      "I'm really sorry you're feeling this way. You don't have to go through this alone. " +
+      "If you're in immediate danger or might act on these thoughts, please contact your local emergency number right now. " +
+      "If you can, reach out to someone you trust or a local crisis hotline.",
+    safeFallback: {
+      NORMAL:
+        "I'm here to listen and support you. Would you like to share more about what's on your mind?",
+      SUPPORTIVE:
+        "I hear you, and I want you to know that your feelings are valid. " +
+        "I'm here to listen without judgment. Would you like to tell me more about what you're experiencing?",
+      CRISIS:
+        "I'm really glad you reached out. What you're feeling matters, and you don't have to face this alone. " +
+        "Please consider reaching out to someone you trust—a friend, family member, or counselor. " +
+        "If you're in immediate danger, please contact your local emergency services or a crisis helpline. " +
+        "I'm here to listen.",
+    },
+    crisisResourcesKnown:
+      'In {country}, you can reach emergency services on {emergency}. ' +
+      'You can also talk to someone right now: {lines}.',
+    crisisResourcesUnknown:
+      "If you tell me what country you're in, I can share specific crisis lines. " +
+      'In the meantime, you can look up free, confidential crisis lines near you: {lines}.',
+    postCrisisCheckIn:
+      "I'm still here with you, and I'm glad you're talking with me. How are you doing right now, are you safe? " +
+      'Have you been able to reach someone you trust or a crisis line?',
+  },
+};
+
+export default en;
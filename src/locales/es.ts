@@ -0,0 +1,42 @@
+import { LocaleBundle } from '../types';
+
+const es: LocaleBundle = {
+  code: 'es',
+
+  stopwords: [
+    'yo', 'mi', 'tú', 'tu', 'te', 'el', 'la', 'los', 'las', 'una', 'y', 'que', 'estoy', 'soy',
+    'muy', 'pero', 'por', 'para', 'con', 'qué', 'cómo', 'hola', 'gracias', 'sí', 'siento',
+    'porque', 'más', 'nada', 'quiero', 'tengo', 'es', 'me', 'voy', 'a',
+  ],
+  distinctiveChars: /[ñ¿¡áíóú]/,
+
+  templates: {
+    languageName: 'Spanish',
+    crisisSafeMessage:
+      'Siento mucho que te sientas así. No tienes que pasar por esto en soledad. ' +
+      'Si estás en peligro inmediato o podrías actuar según estos pensamientos, llama ahora mismo al número de emergencias local. ' +
+      'Si puedes, habla con alguien de confianza o con una línea de crisis local.',
+    safeFallback: {
+      NORMAL:
+        'Estoy aquí para escucharte y apoyarte. ¿Te gustaría contarme más sobre lo que tienes en mente?',
+      SUPPORTIVE:
+        'Te escucho, y quiero que sepas que tus sentimientos son válidos. ' +
+        'Estoy aquí para escucharte sin juzgarte. ¿Te gustaría contarme más sobre lo que estás viviendo?',
+      CRISIS:
+        'Me alegra mucho que te hayas comunicado. Lo que sientes importa, y no tienes que afrontarlo en soledad. ' +
+        'Por favor, considera hablar con alguien de confianza: un amigo, un familiar o un orientador. ' +
+        'Si estás en peligro inmediato, contacta con los servicios de emergencia locales o con una línea de crisis. ' +
+        'Estoy aquí para escucharte.',
+    },
+    crisisResourcesKnown:
+      'Emergencias ({country}): {emergency}. También puedes hablar con alguien ahora mismo: {lines}.',
+    crisisResourcesUnknown:
+      'Si me dices en qué país estás, puedo darte líneas de crisis concretas. ' +
+      'Mientras tanto, puedes encontrar líneas de crisis gratuitas y confidenciales cerca de ti: {lines}.',
+    postCrisisCheckIn:
+      'Sigo aquí contigo y me alegra que me sigas hablando. ¿Cómo estás ahora mismo? ¿Estás a salvo? ' +
+      '¿Has podido contactar con alguien de confianza o con una línea de crisis?',
+  },
+};
+
+export default es;
@@ -0,0 +1,42 @@
+import { LocaleBundle } from '../types';
+
+const fr: LocaleBundle = {
+  code: 'fr',
+
+  stopwords: [
+    'je', "j'ai", 'moi', 'mon', 'ma', 'mes', 'tu', 'le', 'les', 'un', 'une', 'et', 'est',
+    'suis', 'pas', 'ne', 'que', 'qui', 'du', 'des', 'avec', 'pour', 'mais', 'très', 'ça',
+    "c'est", 'bonjour', 'salut', 'merci', 'oui', 'non', 'sens', 'rien', 'veux', 'me', 'te',
+  ],
+  distinctiveChars: /[çàèêëîïôœù]/,
+
+  templates: {
+    languageName: 'French',
+    crisisSafeMessage:
+      "Je regrette sincèrement que tu te sentes ainsi. Tu n'as pas à affronter cela sans soutien. " +
+      "Si tu es en danger immédiat ou si tu risques de passer à l'acte, contacte tout de suite le numéro d'urgence local. " +
+      "Si tu le peux, parle à une personne de confiance ou à une ligne d'écoute de crise.",
+    safeFallback: {
+      NORMAL:
+        "Je suis là pour t'écouter et te soutenir. Veux-tu m'en dire plus sur ce qui te préoccupe ?",
+      SUPPORTIVE:
+        "Je t'entends, et je veux que tu saches que ce que tu ressens est légitime. " +
+        "Je suis là pour t'écouter sans jugement. Veux-tu m'en dire plus sur ce que tu vis ?",
+      CRISIS:
+        "Merci de m'en avoir parlé. Ce que tu ressens compte, et tu n'as pas à affronter cela sans soutien. " +
+        'Pense à contacter une personne de confiance : un ami, un proche ou un conseiller. ' +
+        "Si tu es en danger immédiat, contacte les services d'urgence locaux ou une ligne d'écoute de crise. " +
+        "Je suis là pour t'écouter.",
+    },
+    crisisResourcesKnown:
+      "Urgences ({country}) : {emergency}. Tu peux aussi parler à quelqu'un dès maintenant : {lines}.",
+    crisisResourcesUnknown:
+      "Si tu me dis dans quel pays tu te trouves, je peux t'indiquer des lignes d'écoute précises. " +
+      "En attendant, tu peux trouver des lignes d'écoute gratuites et confidentielles près de chez toi : {lines}.",
+    postCrisisCheckIn:
+      "Je suis toujours là pour toi, merci de continuer à me parler. Comment vas-tu en ce moment, es-tu en sécurité ? " +
+      "As-tu pu joindre une personne de confiance ou une ligne d'écoute de crise ?",
+  },
+};
+
+export default fr;
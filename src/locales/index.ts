@@ -0,0 +1,24 @@
+import { LocaleBundle } from '../types';
+import en from './en';
+import de from './de';
+import es from './es';
+import fr from './fr';
+
+export const DEFAULT_LANGUAGE = 'en';
+
+const LOCALES: Record<string, LocaleBundle> = { en, de, es, fr };
+
+export function isSupportedLanguage(code: string): boolean {
+  return code in LOCALES;
+}
+
+/**
+ * Locale bundle for a language code, falling back to English
+ */
+export function getLocale(code: string): LocaleBundle {
+  return LOCALES[code] || LOCALES[DEFAULT_LANGUAGE];
+}
+
+export function getAllLocales(): LocaleBundle[] {
+  return Object.values(LOCALES);
+}
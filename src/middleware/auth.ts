@@ -0,0 +1,264 @@
+import crypto from 'crypto';
+import { Request, Response, NextFunction } from 'express';
+import { AuthContext } from '../types';
+import { sendError } from './errors';
+import { createLogger } from '../services/Logger';
+
+// =============================================================================
+// AUTH - Request authentication for the chat API
+// Authenticators are tried in order; the first one that recognises the request's
+// credentials decides. Built in:
+// - jwt: "Authorization: Bearer <token>", HS256-signed with AUTH_JWT_SECRET,
+//   user = "sub" claim, "exp" required
+// - apikey: "X-API-Key: <key>" from AUTH_API_KEYS ("key:userId,..."), development only
+// =============================================================================
+
+export type Authenticator = {
+  name: string;
+  // Whether the authenticator has the configuration it needs
+  isConfigured(): boolean;
+  // null: no credentials of this kind. Throws if the credentials are invalid.
+  authenticate(req: Request): AuthContext | null;
+};
+
+const log = createLogger('Auth');
+
+// Tolerated clock difference for exp/nbf checks
+const CLOCK_SKEW_SECONDS = 30;
+
+// Environment configuration - read lazily to allow dotenv to load first
+function getJwtSecret(): string | null {
+  return process.env.AUTH_JWT_SECRET || null;
+}
+
+function getJwtIssuer(): string | null {
+  return process.env.AUTH_JWT_ISSUER || null;
+}
+
+function getJwtAudience(): string | null {
+  return process.env.AUTH_JWT_AUDIENCE || null;
+}
+
+function getApiKeys(): string {
+  return process.env.AUTH_API_KEYS || '';
+}
+
+function getAdminUsers(): string[] {
+  return (process.env.AUTH_ADMIN_USERS || '')
+    .split(',')
+    .map((s) => s.trim())
+    .filter(Boolean);
+}
+
+function isProduction(): boolean {
+  return process.env.NODE_ENV === 'production';
+}
+
+function base64UrlEncode(data: Buffer | string): string {
+  return Buffer.from(data).toString('base64url');
+}
+
+function hmacSha256(secret: string, data: string): Buffer {
+  return crypto.createHmac('sha256', secret).update(data).digest();
+}
+
+/**
+ * Constant-time comparison of strings of any length
+ */
+function safeEqual(a: string, b: string): boolean {
+  const hashA = crypto.createHash('sha256').update(a).digest();
+  const hashB = crypto.createHash('sha256').update(b).digest();
+  return crypto.timingSafeEqual(hashA, hashB);
+}
+
+/**
+ * Issue an HS256 JWT for a user (dev tooling and tests; production tokens come from
+ * the identity provider sharing AUTH_JWT_SECRET)
+ */
+export function signJwt(
+  userId: string,
+  secret: string,
+  options: { expiresInSeconds?: number; issuer?: string; audience?: string } = {}
+): string {
+  const now = Math.floor(Date.now() / 1000);
+  const header = base64UrlEncode(JSON.stringify({ alg: 'HS256', typ: 'JWT' }));
+  const payload = base64UrlEncode(
+    JSON.stringify({
+      sub: userId,
+      iat: now,
+      exp: now + (options.expiresInSeconds ?? 3600),
+      ...(options.issuer && { iss: options.issuer }),
+      ...(options.audience && { aud: options.audience }),
+    })
+  );
+  const signature = base64UrlEncode(hmacSha256(secret, `${header}.${payload}`));
+  return `${header}.${payload}.${signature}`;
+}
+
+/**
+ * Verify an HS256 JWT and return its subject. Throws on any problem.
+ */
+export function verifyJwt(token: string, secret: string): string {
+  const parts = token.split('.');
+  if (parts.length !== 3) {
+    throw new Error('Malformed token');
+  }
+  const [encodedHeader, encodedPayload, encodedSignature] = parts;
+
+  let header: { alg?: unknown };
+  let payload: { sub?: unknown; exp?: unknown; nbf?: unknown; iss?: unknown; aud?: unknown };
+  try {
+    header = JSON.parse(Buffer.from(encodedHeader, 'base64url').toString('utf8'));
+    payload = JSON.parse(Buffer.from(encodedPayload, 'base64url').toString('utf8'));
+  } catch {
+    throw new Error('Malformed token');
+  }
+
+  // Only HS256: never trust the token to pick "none" or another algorithm
+  if (header.alg !== 'HS256') {
+    throw new Error('Unsupported token algorithm');
+  }
+
+  const expected = hmacSha256(secret, `${encodedHeader}.${encodedPayload}`);
+  const actual = Buffer.from(encodedSignature, 'base64url');
+  if (actual.length !== expected.length || !crypto.timingSafeEqual(actual, expected)) {
+    throw new Error('Invalid token signature');
+  }
+
+  const now = Math.floor(Date.now() / 1000);
+  if (typeof payload.exp !== 'number') {
+    throw new Error('Token has no expiry');
+  }
+  if (payload.exp + CLOCK_SKEW_SECONDS < now) {
+    throw new Error('Token expired');
+  }
+  if (typeof payload.nbf === 'number' && payload.nbf - CLOCK_SKEW_SECONDS > now) {
+    throw new Error('Token not yet valid');
+  }
+
+  const issuer = getJwtIssuer();
+  if (issuer && payload.iss !== issuer) {
+    throw new Error('Unexpected token issuer');
+  }
+  const audience = getJwtAudience();
+  if (audience) {
+    const audiences = Array.isArray(payload.aud) ? payload.aud : [payload.aud];
+    if (!audiences.includes(audience)) {
+      throw new Error('Unexpected token audience');
+    }
+  }
+
+  if (typeof payload.sub !== 'string' || payload.sub.length === 0) {
+    throw new Error('Token has no subject');
+  }
+  return payload.sub;
+}
+
+const jwtAuthenticator: Authenticator = {
+  name: 'jwt',
+
+  isConfigured() {
+    return getJwtSecret() !== null;
+  },
+
+  authenticate(req) {
+    const header = req.headers.authorization;
+    if (!header || !/^Bearer\s+/i.test(header)) return null;
+
+    const userId = verifyJwt(header.replace(/^Bearer\s+/i, '').trim(), getJwtSecret()!);
+    return { userId, method: 'jwt' };
+  },
+};
+
+const apiKeyAuthenticator: Authenticator = {
+  name: 'apikey',
+
+  // Static keys are a development convenience and are never accepted in production
+  isConfigured() {
+    return !isProduction() && getApiKeys().length > 0;
+  },
+
+  authenticate(req) {
+    const key = req.headers['x-api-key'];
+    if (typeof key !== 'string' || key.length === 0) return null;
+
+    for (const entry of getApiKeys().split(',')) {
+      const separator = entry.lastIndexOf(':');
+      if (separator <= 0) continue;
+      const configuredKey = entry.slice(0, separator).trim();
+      const userId = entry.slice(separator + 1).trim();
+      if (userId && safeEqual(key, configuredKey)) {
+        return { userId, method: 'apikey' };
+      }
+    }
+    throw new Error('Invalid API key');
+  },
+};
+
+const authenticators: Authenticator[] = [jwtAuthenticator, apiKeyAuthenticator];
+
+/**
+ * Add an authenticator; it is tried after the built-in ones
+ */
+export function registerAuthenticator(authenticator: Authenticator): void {
+  authenticators.push(authenticator);
+}
+
+function rejectUnauthorized(res: Response, message: string): void {
+  res.setHeader('WWW-Authenticate', 'Bearer');
+  sendError(res, 401, 'UNAUTHORIZED', message);
+}
+
+/**
+ * Express middleware: authenticate the request or answer 401.
+ * The identity is available to handlers through getAuth(res).
+ */
+export function requireAuth(req: Request, res: Response, next: NextFunction): void {
+  const configured = authenticators.filter((a) => a.isConfigured());
+  if (configured.length === 0) {
+    log.error('No authenticator configured (set AUTH_JWT_SECRET or AUTH_API_KEYS)');
+    rejectUnauthorized(res, 'Authentication is not configured on this server');
+    return;
+  }
+
+  for (const authenticator of configured) {
+    try {
+      const auth = authenticator.authenticate(req);
+      if (auth) {
+        res.locals.auth = auth;
+        next();
+        return;
+      }
+    } catch (error) {
+      log.warn('Credentials rejected', { authenticator: authenticator.name, error });
+      rejectUnauthorized(res, 'Invalid credentials');
+      return;
+    }
+  }
+
+  rejectUnauthorized(res, 'Authentication required');
+}
+
+/**
+ * Express middleware (after requireAuth): only users listed in AUTH_ADMIN_USERS pass, others get 403
+ */
+export function requireAdmin(_req: Request, res: Response, next: NextFunction): void {
+  const { userId } = getAuth(res);
+  if (!getAdminUsers().includes(userId)) {
+    log.warn('Non-admin user rejected from admin endpoint');
+    sendError(res, 403, 'FORBIDDEN', 'Admin access required');
+    return;
+  }
+  next();
+}
+
+/**
+ * Identity attached by requireAuth
+ */
+export function getAuth(res: Response): AuthContext {
+  const auth = res.locals.auth as AuthContext | undefined;
+  if (!auth) {
+    throw new Error('getAuth called on a route without requireAuth');
+  }
+  return auth;
+}
@@ -0,0 +1,33 @@
+import http from 'http';
+import { Response } from 'express';
+import { ApiErrorCode, ErrorResponse } from '../types';
+
+/**
+ * Error body with the HTTP status text, a machine-readable code and a message
+ */
+export function buildError(
+  status: number,
+  code: ApiErrorCode,
+  message: string,
+  extra?: Pick<ErrorResponse, 'details' | 'retryAfterSeconds'>
+): ErrorResponse {
+  return {
+    error: http.STATUS_CODES[status] ?? 'Error',
+    code,
+    message,
+    ...extra,
+  };
+}
+
+/**
+ * Write an error response; every error the API returns goes through here
+ */
+export function sendError(
+  res: Response,
+  status: number,
+  code: ApiErrorCode,
+  message: string,
+  extra?: Pick<ErrorResponse, 'details' | 'retryAfterSeconds'>
+): void {
+  res.status(status).json(buildError(status, code, message, extra));
+}
@@ -0,0 +1,99 @@
+import { Request, Response, NextFunction } from 'express';
+import { ChatRequest } from '../types';
+import InputAnalyzer from '../services/InputAnalyzer';
+import RateLimiter, { RateLimitTier } from '../services/RateLimiter';
+import RiskTrajectoryTracker from '../services/RiskTrajectoryTracker';
+import PostCrisisTracker from '../services/PostCrisisTracker';
+import { getAuth } from './auth';
+import { sendError } from './errors';
+import { createLogger } from '../services/Logger';
+
+const log = createLogger('RateLimit');
+
+// Environment configuration - read lazily to allow dotenv to load first
+function getMaxMessageLength(): number {
+  return parseInt(process.env.MAX_MESSAGE_LENGTH || '4000', 10);
+}
+
+/**
+ * Bucket tier for a conversation: crisis while the crisis cooldown or an ACTIVE
+ * post-crisis follow-up lasts (stored state, no LLM call)
+ */
+async function getTier(conversationId: string): Promise<RateLimitTier> {
+  const inCrisis =
+    (await RiskTrajectoryTracker.isCooldownActive(conversationId)) ||
+    (await PostCrisisTracker.isActive(conversationId));
+  return inCrisis ? 'crisis' : 'standard';
+}
+
+/**
+ * Abuse protection for chat messages: maximum message length, then token-bucket
+ * limits per user, conversation and IP (429 with Retry-After). Mounted after the
+ * conversation access check, so only the owner's messages reach the buckets.
+ *
+ * A message the rules classify as CRISIS skips the buckets and uses up no tokens:
+ * a user in distress must never be turned away, and the crisis template answers
+ * it without calling the LLM. The other turns of a conversation still in crisis
+ * do reach the LLM, so they draw from the larger crisis-tier buckets instead.
+ */
+export async function limitChatMessages(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const body = req.body as Partial<ChatRequest> | undefined;
+
+    // Malformed bodies are rejected by the route's own validation
+    if (typeof body?.message !== 'string' || typeof body.conversationId !== 'string') {
+      next();
+      return;
+    }
+
+    // Step 1: Message length, CRISIS messages included
+    const maxLength = getMaxMessageLength();
+    if (body.message.length > maxLength) {
+      sendError(res, 413, 'PAYLOAD_TOO_LARGE', `message must be at most ${maxLength} characters`);
+      return;
+    }
+
+    // Step 2: CRISIS messages are exempt from the buckets (rules only, no LLM call)
+    const analysis = await InputAnalyzer.analyze(body.message, body.client?.locale);
+    if (analysis.suggestedMode === 'CRISIS') {
+      next();
+      return;
+    }
+
+    // Step 3: Token buckets of the conversation's tier
+    const tier = await getTier(body.conversationId);
+    const decision = RateLimiter.consume(
+      {
+        user: getAuth(res).userId,
+        conversation: body.conversationId,
+        ip: req.ip,
+      },
+      tier
+    );
+
+    if (!decision.allowed) {
+      log.warn('Rejected message', {
+        scope: decision.scope,
+        tier,
+        retryAfterSeconds: decision.retryAfterSeconds,
+      });
+      res.setHeader('Retry-After', String(decision.retryAfterSeconds));
+      sendError(
+        res,
+        429,
+        'RATE_LIMITED',
+        `Rate limit exceeded (${decision.scope}), retry in ${decision.retryAfterSeconds}s`,
+        { retryAfterSeconds: decision.retryAfterSeconds }
+      );
+      return;
+    }
+
+    next();
+  } catch (error) {
+    next(error);
+  }
+}
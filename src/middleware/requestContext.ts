@@ -0,0 +1,44 @@
+import crypto from 'crypto';
+import { Request, Response, NextFunction } from 'express';
+import { createLogger, markSensitive, runWithRequestContext } from '../services/Logger';
+
+const log = createLogger('Http');
+
+// Accepted client-supplied IDs; anything else is replaced so it cannot inject into logs
+const REQUEST_ID_PATTERN = /^[A-Za-z0-9._:-]{1,128}$/;
+
+/**
+ * Express middleware (after the body parser): give the request a correlation ID,
+ * taken from X-Request-Id if valid and echoed back in the response, and run the
+ * rest of the chain in its logging context. The user's message is registered
+ * for redaction so it never reaches the logs.
+ */
+export function assignRequestContext(req: Request, res: Response, next: NextFunction): void {
+  const incoming = req.headers['x-request-id'];
+  const requestId =
+    typeof incoming === 'string' && REQUEST_ID_PATTERN.test(incoming)
+      ? incoming
+      : crypto.randomUUID();
+  res.setHeader('X-Request-Id', requestId);
+
+  const startTime = Date.now();
+  // Routers rewrite req.path while routing; keep the full path
+  const path = req.path;
+  res.on('finish', () => {
+    log.info('Request completed', {
+      requestId,
+      method: req.method,
+      path,
+      status: res.statusCode,
+      durationMs: Date.now() - startTime,
+    });
+  });
+
+  runWithRequestContext(requestId, () => {
+    const message = (req.body as { message?: unknown } | undefined)?.message;
+    if (typeof message === 'string') {
+      markSensitive(message);
+    }
+    next();
+  });
+}
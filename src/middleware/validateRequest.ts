@@ -0,0 +1,84 @@
+import { Request, Response, NextFunction } from 'express';
+import { ValidationIssue } from '../types';
+import { Operation } from '../openapi/spec';
+import { schemas } from '../openapi/schemas';
+import { validateSchema, coerceParameter } from '../openapi/validator';
+import { sendError } from './errors';
+import { createLogger } from '../services/Logger';
+
+const log = createLogger('Validation');
+
+// Environment configuration - read lazily to allow dotenv to load first
+function getValidateResponses(): boolean {
+  const configured = process.env.API_VALIDATE_RESPONSES;
+  return configured ? configured === 'true' : process.env.NODE_ENV !== 'production';
+}
+
+/**
+ * Path and query parameters plus the JSON body, checked against the operation.
+ * Unknown query parameters are ignored; unknown body fields are issues.
+ */
+function validateInput(operation: Operation, req: Request): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+
+  for (const parameter of operation.parameters ?? []) {
+    const raw = parameter.in === 'path' ? req.params[parameter.name] : req.query[parameter.name];
+
+    if (raw === undefined || raw === '') {
+      if (parameter.required) issues.push({ path: parameter.name, message: 'is required' });
+      continue;
+    }
+    if (typeof raw !== 'string') {
+      issues.push({ path: parameter.name, message: 'must be given once' });
+      continue;
+    }
+    issues.push(
+      ...validateSchema(parameter.schema, coerceParameter(parameter.schema, raw), schemas, parameter.name)
+    );
+  }
+
+  if (operation.requestBody) {
+    issues.push(...validateSchema(operation.requestBody, req.body, schemas));
+  }
+
+  return issues;
+}
+
+/**
+ * Express middleware: reject requests that do not match the operation's spec with
+ * 400 VALIDATION_FAILED, listing every issue. When API_VALIDATE_RESPONSES is on
+ * (default outside production), JSON responses that do not match the spec are logged.
+ */
+export function validateRequest(operation: Operation) {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    const issues = validateInput(operation, req);
+    if (issues.length > 0) {
+      sendError(
+        res,
+        400,
+        'VALIDATION_FAILED',
+        issues.map((issue) => `${issue.path} ${issue.message}`).join('; '),
+        { details: issues }
+      );
+      return;
+    }
+
+    if (getValidateResponses()) {
+      const json = res.json.bind(res);
+      res.json = (body: unknown) => {
+        const schema = operation.responses[res.statusCode]?.schema;
+        const problems = schema ? validateSchema(schema, body, schemas) : [];
+        if (!schema || problems.length > 0) {
+          log.warn('Response does not match the API spec', {
+            operationId: operation.operationId,
+            status: res.statusCode,
+            issues: schema ? problems : 'undocumented status',
+          });
+        }
+        return json(body);
+      };
+    }
+
+    next();
+  };
+}
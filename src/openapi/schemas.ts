@@ -0,0 +1,399 @@
+import {
+  ApiErrorCode,
+  AuditEntry,
+  AuditQueryResponse,
+  ChatHistoryResponse,
+  ChatMessage,
+  ChatRequest,
+  ChatResponse,
+  ChatRole,
+  ContextWindow,
+  ConversationExport,
+  ConversationSummary,
+  CountrySource,
+  CrisisResourceInfo,
+  ErrorResponse,
+  LanguageDetection,
+  Mode,
+  PostCrisisState,
+  PostCrisisStatus,
+  RepairOutcome,
+  ResponseRepair,
+  RiskLevel,
+  RiskTrajectory,
+  RiskTrend,
+  ValidationIssue,
+} from '../types';
+import { Schema, SchemaComponents } from './validator';
+
+// =============================================================================
+// API SCHEMAS - JSON schemas for the request and response types in src/types.ts
+// objectSchema<T>() only compiles when the schema lists exactly the fields of T
+// and marks exactly its non-optional fields as required, so a type change that
+// is not reflected here fails the build instead of drifting from the contract.
+// =============================================================================
+
+type RequiredKeys<T> = { [K in keyof T]-?: undefined extends T[K] ? never : K }[keyof T];
+
+type MissingRequired<T, R extends readonly PropertyKey[]> = Exclude<RequiredKeys<T>, R[number]>;
+
+type ObjectSchema<T, R extends readonly PropertyKey[]> = {
+  description?: string;
+  properties: { [K in keyof Required<T>]: Schema };
+  required: R;
+} & ([MissingRequired<T, R>] extends [never] ? unknown : { missingRequired: MissingRequired<T, R> });
+
+function objectSchema<T>() {
+  return <const R extends readonly (RequiredKeys<T> & string)[]>(schema: ObjectSchema<T, R>): Schema => ({
+    type: 'object',
+    description: schema.description,
+    properties: schema.properties,
+    required: schema.required,
+    additionalProperties: false,
+  });
+}
+
+export function ref(name: string): Schema {
+  return { $ref: `#/components/schemas/${name}` };
+}
+
+function stringEnum<T extends string>(values: T[], description?: string): Schema {
+  return { type: 'string', enum: values, description };
+}
+
+const MODES: Mode[] = ['NORMAL', 'SUPPORTIVE', 'CRISIS'];
+const RISK_LEVELS: RiskLevel[] = ['LOW', 'MEDIUM', 'HIGH'];
+const RISK_TRENDS: RiskTrend[] = ['RISING', 'STABLE', 'FALLING'];
+const CHAT_ROLES: ChatRole[] = ['user', 'assistant'];
+const COUNTRY_SOURCES: CountrySource[] = ['USER_MENTION', 'LOCALE', 'TIMEZONE'];
+const REPAIR_OUTCOMES: RepairOutcome[] = ['passed', 'repaired', 'fallback', 'unavailable'];
+const POST_CRISIS_STATUSES: PostCrisisStatus[] = ['ACTIVE', 'RESOLVED', 'TIMED_OUT'];
+const ERROR_CODES: ApiErrorCode[] = [
+  'INVALID_JSON',
+  'VALIDATION_FAILED',
+  'UNAUTHORIZED',
+  'FORBIDDEN',
+  'NOT_FOUND',
+  'PAYLOAD_TOO_LARGE',
+  'RATE_LIMITED',
+  'INTERNAL_ERROR',
+  'STREAM_INTERRUPTED',
+];
+
+export const MAX_ID_LENGTH = 128;
+
+const timestamp: Schema = { type: 'string', format: 'date-time' };
+const stringList: Schema = { type: 'array', items: { type: 'string' } };
+
+export const conversationIdSchema: Schema = {
+  type: 'string',
+  minLength: 1,
+  maxLength: MAX_ID_LENGTH,
+  description: 'Client-chosen conversation ID; created with its first message',
+};
+
+export const schemas: SchemaComponents = {
+  Mode: stringEnum(MODES),
+  RiskLevel: stringEnum(RISK_LEVELS),
+
+  ClientInfo: objectSchema<NonNullable<ChatRequest['client']>>()({
+    properties: {
+      platform: stringEnum(['ios', 'android']),
+      appVersion: { type: 'string', maxLength: 32 },
+      timezone: { type: 'string', maxLength: 64, description: 'IANA time zone, e.g. "Europe/Berlin"' },
+      locale: {
+        type: 'string',
+        maxLength: 35,
+        pattern: '^[A-Za-z]{2,3}([-_][A-Za-z0-9]{1,8})*$',
+        description: 'BCP 47 tag, e.g. "en-GB"; the region is used to pick crisis resources',
+      },
+    },
+    required: [],
+  }),
+
+  ChatRequest: objectSchema<ChatRequest>()({
+    properties: {
+      conversationId: conversationIdSchema,
+      userId: {
+        type: 'string',
+        minLength: 1,
+        maxLength: MAX_ID_LENGTH,
+        description: 'Optional; must match the authenticated user',
+      },
+      message: {
+        type: 'string',
+        minLength: 1,
+        description:
+          'Longer than MAX_MESSAGE_LENGTH is rejected with 413, except for messages classified as CRISIS',
+      },
+      client: ref('ClientInfo'),
+    },
+    required: ['conversationId', 'message'],
+  }),
+
+  RiskTrajectory: objectSchema<RiskTrajectory>()({
+    properties: {
+      trend: stringEnum(RISK_TRENDS),
+      cumulativeScore: { type: 'number' },
+      turnsSinceCrisis: { type: 'integer', nullable: true },
+      crisisCooldownActive: { type: 'boolean' },
+    },
+    required: ['trend', 'cumulativeScore', 'turnsSinceCrisis', 'crisisCooldownActive'],
+  }),
+
+  CrisisResourceInfo: objectSchema<CrisisResourceInfo>()({
+    properties: {
+      countryCode: { type: 'string', nullable: true },
+      countrySource: { ...stringEnum(COUNTRY_SOURCES), nullable: true },
+      directoryVersion: { type: 'string' },
+    },
+    required: ['countryCode', 'countrySource', 'directoryVersion'],
+  }),
+
+  LanguageDetection: objectSchema<LanguageDetection>()({
+    properties: {
+      code: { type: 'string' },
+      supported: { type: 'boolean' },
+      confidence: { type: 'number', minimum: 0, maximum: 1 },
+    },
+    required: ['code', 'supported', 'confidence'],
+  }),
+
+  ContextWindow: objectSchema<ContextWindow>()({
+    properties: {
+      messagesIncluded: { type: 'integer', minimum: 0 },
+      messagesAvailable: { type: 'integer', minimum: 0 },
+      truncated: { type: 'boolean' },
+      summaryIncluded: { type: 'boolean' },
+      estimatedTokens: { type: 'integer', minimum: 0 },
+      tokenBudget: { type: 'integer', minimum: 0 },
+    },
+    required: [
+      'messagesIncluded',
+      'messagesAvailable',
+      'truncated',
+      'summaryIncluded',
+      'estimatedTokens',
+      'tokenBudget',
+    ],
+  }),
+
+  ResponseRepair: objectSchema<ResponseRepair>()({
+    properties: {
+      attempts: { type: 'integer', minimum: 0 },
+      outcome: stringEnum(REPAIR_OUTCOMES),
+    },
+    required: ['attempts', 'outcome'],
+  }),
+
+  PostCrisisState: objectSchema<PostCrisisState>()({
+    properties: {
+      status: stringEnum(POST_CRISIS_STATUSES),
+      countryShared: { type: 'boolean' },
+      safetyConfirmed: { type: 'boolean' },
+      reachedOut: { type: 'boolean' },
+      checkInTurns: { type: 'integer', minimum: 0 },
+      startedAt: timestamp,
+      updatedAt: timestamp,
+    },
+    required: [
+      'status',
+      'countryShared',
+      'safetyConfirmed',
+      'reachedOut',
+      'checkInTurns',
+      'startedAt',
+      'updatedAt',
+    ],
+  }),
+
+  ChatResponseMetadata: objectSchema<ChatResponse['metadata']>()({
+    properties: {
+      latencyMs: { type: 'integer', minimum: 0 },
+      safetyFlags: stringList,
+      promptVersion: { type: 'string' },
+      rulePackVersion: { type: 'string' },
+      llmProvider: { type: 'string', description: '"none" when the reply is the safe fallback' },
+      modeReason: { type: 'string' },
+      riskLevel: ref('RiskLevel'),
+      semanticUsed: { type: 'boolean' },
+      riskTrajectory: ref('RiskTrajectory'),
+      crisisResources: ref('CrisisResourceInfo'),
+      language: ref('LanguageDetection'),
+      context: ref('ContextWindow'),
+      repair: ref('ResponseRepair'),
+      postCrisis: ref('PostCrisisState'),
+    },
+    required: [
+      'latencyMs',
+      'safetyFlags',
+      'promptVersion',
+      'rulePackVersion',
+      'llmProvider',
+      'modeReason',
+    ],
+  }),
+
+  ChatResponse: objectSchema<ChatResponse>()({
+    properties: {
+      conversationId: { type: 'string' },
+      assistantMessage: { type: 'string' },
+      mode: ref('Mode'),
+      metadata: ref('ChatResponseMetadata'),
+    },
+    required: ['conversationId', 'assistantMessage', 'mode', 'metadata'],
+  }),
+
+  ChatMessage: objectSchema<ChatMessage>()({
+    properties: {
+      role: stringEnum(CHAT_ROLES),
+      content: { type: 'string' },
+      timestamp,
+      mode: ref('Mode'),
+    },
+    required: ['role', 'content', 'timestamp'],
+  }),
+
+  ChatHistoryResponse: objectSchema<ChatHistoryResponse>()({
+    properties: {
+      conversationId: { type: 'string' },
+      messages: { type: 'array', items: ref('ChatMessage') },
+      count: { type: 'integer', minimum: 0 },
+    },
+    required: ['conversationId', 'messages', 'count'],
+  }),
+
+  ConversationSummary: objectSchema<ConversationSummary>()({
+    properties: {
+      text: { type: 'string' },
+      summarizedMessages: { type: 'integer', minimum: 0 },
+      updatedAt: timestamp,
+    },
+    required: ['text', 'summarizedMessages', 'updatedAt'],
+  }),
+
+  ConversationExport: objectSchema<ConversationExport>()({
+    properties: {
+      format: stringEnum(['conversation-export']),
+      formatVersion: { type: 'integer', enum: [1] },
+      exportedAt: timestamp,
+      conversationId: { type: 'string' },
+      createdAt: timestamp,
+      lastActivityAt: timestamp,
+      messages: { type: 'array', items: ref('ChatMessage') },
+      summary: ref('ConversationSummary'),
+    },
+    required: [
+      'format',
+      'formatVersion',
+      'exportedAt',
+      'conversationId',
+      'createdAt',
+      'lastActivityAt',
+      'messages',
+    ],
+  }),
+
+  AuditContent: {
+    description: 'Message content as a keyed hash, or the text with PII redacted',
+    oneOf: [
+      { type: 'object', properties: { hash: { type: 'string' } }, required: ['hash'], additionalProperties: false },
+      {
+        type: 'object',
+        properties: { redacted: { type: 'string' } },
+        required: ['redacted'],
+        additionalProperties: false,
+      },
+    ],
+  },
+
+  AuditEntry: objectSchema<AuditEntry>()({
+    properties: {
+      id: { type: 'string' },
+      timestamp,
+      conversationRef: { type: 'string' },
+      mode: ref('Mode'),
+      modeReason: { type: 'string' },
+      riskLevel: ref('RiskLevel'),
+      safetyFlags: stringList,
+      semantic: objectSchema<AuditEntry['semantic']>()({
+        properties: {
+          used: { type: 'boolean' },
+          riskLevel: ref('RiskLevel'),
+          modeReason: { type: 'string' },
+        },
+        required: ['used'],
+      }),
+      trajectory: objectSchema<AuditEntry['trajectory']>()({
+        properties: {
+          trend: stringEnum(RISK_TRENDS),
+          cumulativeScore: { type: 'number' },
+          crisisCooldownActive: { type: 'boolean' },
+        },
+        required: ['trend', 'cumulativeScore', 'crisisCooldownActive'],
+      }),
+      validation: {
+        ...objectSchema<NonNullable<AuditEntry['validation']>>()({
+          properties: {
+            isSafe: { type: 'boolean' },
+            flags: stringList,
+            reason: { type: 'string' },
+          },
+          required: ['isSafe', 'flags'],
+        }),
+        nullable: true,
+        description: 'null when no LLM response was generated (CRISIS template)',
+      },
+      repair: ref('ResponseRepair'),
+      llmProvider: { type: 'string' },
+      rulePackVersion: { type: 'string' },
+      promptVersion: { type: 'string' },
+      userContent: ref('AuditContent'),
+      assistantContent: ref('AuditContent'),
+    },
+    required: [
+      'id',
+      'timestamp',
+      'conversationRef',
+      'mode',
+      'modeReason',
+      'riskLevel',
+      'safetyFlags',
+      'semantic',
+      'trajectory',
+      'validation',
+      'llmProvider',
+      'rulePackVersion',
+      'promptVersion',
+      'userContent',
+      'assistantContent',
+    ],
+  }),
+
+  AuditQueryResponse: objectSchema<AuditQueryResponse>()({
+    properties: {
+      entries: { type: 'array', items: ref('AuditEntry') },
+      count: { type: 'integer', minimum: 0 },
+    },
+    required: ['entries', 'count'],
+  }),
+
+  ValidationIssue: objectSchema<ValidationIssue>()({
+    properties: {
+      path: { type: 'string', description: 'Offending field, e.g. "client.platform"' },
+      message: { type: 'string' },
+    },
+    required: ['path', 'message'],
+  }),
+
+  ErrorResponse: objectSchema<ErrorResponse>()({
+    properties: {
+      error: { type: 'string', description: 'HTTP status text' },
+      code: stringEnum(ERROR_CODES),
+      message: { type: 'string' },
+      details: { type: 'array', items: ref('ValidationIssue') },
+      retryAfterSeconds: { type: 'integer', minimum: 0 },
+    },
+    required: ['error', 'code', 'message'],
+  }),
+};
@@ -0,0 +1,297 @@
+import { Schema } from './validator';
+import { schemas, ref, conversationIdSchema } from './schemas';
+
+// =============================================================================
+// OPENAPI SPEC - The HTTP contract, served at /openapi.json
+// Each route is described once here; validateRequest() checks incoming requests
+// (and, outside production, outgoing JSON responses) against the same operation,
+// so the published spec and the runtime checks cannot disagree.
+// =============================================================================
+
+export type Parameter = {
+  name: string;
+  in: 'query' | 'path';
+  required?: boolean;
+  description?: string;
+  schema: Schema;
+};
+
+type OperationResponse = {
+  description: string;
+  // JSON body schema; absent for empty or non-JSON responses
+  schema?: Schema;
+  // Non-JSON body, e.g. the SSE stream
+  content?: { type: string; description?: string };
+};
+
+export type Operation = {
+  operationId: string;
+  method: 'get' | 'post' | 'delete';
+  // OpenAPI path template, e.g. /v1/chat/conversations/{id}
+  path: string;
+  summary: string;
+  tag: string;
+  security: 'user' | 'admin' | 'metrics' | 'none';
+  parameters?: Parameter[];
+  requestBody?: Schema;
+  responses: Record<number, OperationResponse>;
+};
+
+const ERROR = ref('ErrorResponse');
+
+// Error responses shared by the authenticated chat routes
+const CHAT_ERRORS: Record<number, OperationResponse> = {
+  400: { description: 'Invalid request (INVALID_JSON, VALIDATION_FAILED)', schema: ERROR },
+  401: { description: 'Missing or invalid credentials (UNAUTHORIZED)', schema: ERROR },
+  403: { description: 'The conversation belongs to another user (FORBIDDEN)', schema: ERROR },
+  500: { description: 'Unexpected error (INTERNAL_ERROR)', schema: ERROR },
+};
+
+// Send and stream also apply the abuse limits (CRISIS messages skip the rate limit, not the length cap)
+const MESSAGE_ERRORS: Record<number, OperationResponse> = {
+  ...CHAT_ERRORS,
+  413: { description: 'Message longer than MAX_MESSAGE_LENGTH (PAYLOAD_TOO_LARGE)', schema: ERROR },
+  429: {
+    description: 'Rate limit exceeded (RATE_LIMITED); see the Retry-After header',
+    schema: ERROR,
+  },
+};
+
+const conversationIdPath: Parameter = {
+  name: 'id',
+  in: 'path',
+  required: true,
+  schema: conversationIdSchema,
+};
+
+export const operations = {
+  getHealth: {
+    operationId: 'getHealth',
+    method: 'get',
+    path: '/health',
+    summary: 'Liveness check',
+    tag: 'system',
+    security: 'none',
+    responses: {
+      200: {
+        description: 'The server is up',
+        schema: {
+          type: 'object',
+          properties: { status: { type: 'string', enum: ['ok'] } },
+          required: ['status'],
+        },
+      },
+    },
+  },
+
+  getMetrics: {
+    operationId: 'getMetrics',
+    method: 'get',
+    path: '/metrics',
+    summary: 'Prometheus metrics; requires METRICS_TOKEN as a bearer token when it is set',
+    tag: 'system',
+    security: 'metrics',
+    responses: {
+      200: { description: 'Metrics', content: { type: 'text/plain' } },
+      401: { description: 'Metrics token required (UNAUTHORIZED)', schema: ERROR },
+    },
+  },
+
+  getOpenApiSpec: {
+    operationId: 'getOpenApiSpec',
+    method: 'get',
+    path: '/openapi.json',
+    summary: 'This OpenAPI document',
+    tag: 'system',
+    security: 'none',
+    responses: {
+      200: { description: 'OpenAPI 3.0 document', schema: { type: 'object' } },
+    },
+  },
+
+  sendMessage: {
+    operationId: 'sendMessage',
+    method: 'post',
+    path: '/v1/chat/send',
+    summary: 'Send a message and receive the full reply',
+    tag: 'chat',
+    security: 'user',
+    requestBody: ref('ChatRequest'),
+    responses: {
+      200: { description: 'Assistant reply', schema: ref('ChatResponse') },
+      ...MESSAGE_ERRORS,
+    },
+  },
+
+  streamMessage: {
+    operationId: 'streamMessage',
+    method: 'post',
+    path: '/v1/chat/stream',
+    summary: 'Send a message and receive the reply as Server-Sent Events',
+    tag: 'chat',
+    security: 'user',
+    requestBody: ref('ChatRequest'),
+    responses: {
+      200: {
+        description: 'Reply stream',
+        content: {
+          type: 'text/event-stream',
+          description:
+            '"token" ({ text }) events, an optional "replace" ({ text }) event that replaces ' +
+            'everything sent so far, then "done" (ChatResponse) or "error" (ErrorResponse)',
+        },
+      },
+      ...MESSAGE_ERRORS,
+    },
+  },
+
+  getHistory: {
+    operationId: 'getHistory',
+    method: 'get',
+    path: '/v1/chat/history',
+    summary: 'Most recent messages of a conversation',
+    tag: 'chat',
+    security: 'user',
+    parameters: [{ name: 'conversationId', in: 'query', required: true, schema: conversationIdSchema }],
+    responses: {
+      200: {
+        description: 'Up to 20 messages, oldest first (empty for an unknown conversation)',
+        schema: ref('ChatHistoryResponse'),
+      },
+      ...CHAT_ERRORS,
+    },
+  },
+
+  exportConversation: {
+    operationId: 'exportConversation',
+    method: 'get',
+    path: '/v1/chat/conversations/{id}/export',
+    summary: 'Portable JSON copy of a conversation',
+    tag: 'chat',
+    security: 'user',
+    parameters: [conversationIdPath],
+    responses: {
+      200: { description: 'Conversation export', schema: ref('ConversationExport') },
+      404: { description: 'Unknown or expired conversation (NOT_FOUND)', schema: ERROR },
+      ...CHAT_ERRORS,
+    },
+  },
+
+  deleteConversation: {
+    operationId: 'deleteConversation',
+    method: 'delete',
+    path: '/v1/chat/conversations/{id}',
+    summary: 'Hard-delete a conversation and its derived state',
+    tag: 'chat',
+    security: 'user',
+    parameters: [conversationIdPath],
+    responses: {
+      204: { description: 'Deleted' },
+      404: { description: 'Unknown or expired conversation (NOT_FOUND)', schema: ERROR },
+      ...CHAT_ERRORS,
+    },
+  },
+
+  queryAudit: {
+    operationId: 'queryAudit',
+    method: 'get',
+    path: '/v1/admin/audit',
+    summary: 'Safety audit entries, newest first',
+    tag: 'admin',
+    security: 'admin',
+    parameters: [
+      { name: 'conversationId', in: 'query', schema: conversationIdSchema },
+      { name: 'conversationRef', in: 'query', schema: { type: 'string', minLength: 1 } },
+      { name: 'from', in: 'query', description: 'Inclusive', schema: { type: 'string', format: 'date-time' } },
+      { name: 'to', in: 'query', description: 'Inclusive', schema: { type: 'string', format: 'date-time' } },
+      { name: 'flag', in: 'query', description: 'Safety flag', schema: { type: 'string', minLength: 1 } },
+      { name: 'mode', in: 'query', schema: ref('Mode') },
+      { name: 'limit', in: 'query', schema: { type: 'integer', minimum: 1, maximum: 1000 } },
+    ],
+    responses: {
+      200: { description: 'Matching entries', schema: ref('AuditQueryResponse') },
+      400: { description: 'Invalid query (VALIDATION_FAILED)', schema: ERROR },
+      401: { description: 'Missing or invalid credentials (UNAUTHORIZED)', schema: ERROR },
+      403: { description: 'Not an admin user (FORBIDDEN)', schema: ERROR },
+      500: { description: 'Unexpected error (INTERNAL_ERROR)', schema: ERROR },
+    },
+  },
+} satisfies Record<string, Operation>;
+
+const SECURITY: Record<Operation['security'], Record<string, string[]>[]> = {
+  user: [{ bearerAuth: [] }, { apiKeyAuth: [] }],
+  admin: [{ bearerAuth: [] }, { apiKeyAuth: [] }],
+  // Open unless METRICS_TOKEN is set
+  metrics: [{}, { metricsToken: [] }],
+  none: [],
+};
+
+function describeResponse(response: OperationResponse): Record<string, unknown> {
+  if (response.schema) {
+    return { description: response.description, content: { 'application/json': { schema: response.schema } } };
+  }
+  if (response.content) {
+    const { type, description } = response.content;
+    return {
+      description: description ? `${response.description}: ${description}` : response.description,
+      content: { [type]: { schema: { type: 'string' } } },
+    };
+  }
+  return { description: response.description };
+}
+
+let cachedSpec: Record<string, unknown> | null = null;
+
+/**
+ * OpenAPI 3.0 document for every route (built once)
+ */
+export function getOpenApiSpec(): Record<string, unknown> {
+  if (cachedSpec) return cachedSpec;
+
+  const paths: Record<string, Record<string, unknown>> = {};
+  for (const operation of Object.values(operations) as Operation[]) {
+    (paths[operation.path] ??= {})[operation.method] = {
+      operationId: operation.operationId,
+      summary: operation.summary,
+      tags: [operation.tag],
+      security: SECURITY[operation.security],
+      parameters: operation.parameters,
+      requestBody: operation.requestBody && {
+        required: true,
+        content: { 'application/json': { schema: operation.requestBody } },
+      },
+      responses: Object.fromEntries(
+        Object.entries(operation.responses).map(([status, response]) => [
+          status,
+          describeResponse(response),
+        ])
+      ),
+    };
+  }
+
+  cachedSpec = {
+    openapi: '3.0.3',
+    info: {
+      title: 'Mental Health Assistant API',
+      version: '1.0.0',
+      description:
+        'Supportive chat with rule-based crisis detection. Every error body is an ErrorResponse ' +
+        'with a machine-readable code.',
+    },
+    tags: [
+      { name: 'chat', description: 'Conversations (authenticated users)' },
+      { name: 'admin', description: 'Admin endpoints (users in AUTH_ADMIN_USERS)' },
+      { name: 'system', description: 'Health, metrics and this document' },
+    ],
+    paths,
+    components: {
+      schemas,
+      securitySchemes: {
+        bearerAuth: { type: 'http', scheme: 'bearer', bearerFormat: 'JWT', description: 'HS256 token; the user is the "sub" claim' },
+        apiKeyAuth: { type: 'apiKey', in: 'header', name: 'X-API-Key', description: 'Static development key (not in production)' },
+        metricsToken: { type: 'http', scheme: 'bearer', description: 'METRICS_TOKEN' },
+      },
+    },
+  };
+  return cachedSpec;
+}
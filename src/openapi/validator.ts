@@ -0,0 +1,161 @@
+import { ValidationIssue } from '../types';
+
+// The subset of OpenAPI 3.0 schema objects the API spec uses, and the validator checks
+export type Schema = {
+  $ref?: string;
+  type?: 'object' | 'array' | 'string' | 'integer' | 'number' | 'boolean';
+  description?: string;
+  nullable?: boolean;
+  enum?: readonly (string | number)[];
+  oneOf?: Schema[];
+  // object
+  properties?: Record<string, Schema>;
+  required?: readonly string[];
+  additionalProperties?: boolean;
+  // array
+  items?: Schema;
+  // string
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  format?: 'date-time';
+  // number / integer
+  minimum?: number;
+  maximum?: number;
+};
+
+// Named schemas that $ref values ("#/components/schemas/<name>") point at
+export type SchemaComponents = Record<string, Schema>;
+
+const REF_PREFIX = '#/components/schemas/';
+
+function typeOf(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'number' && Number.isInteger(value)) return 'integer';
+  return typeof value;
+}
+
+function matchesType(type: Schema['type'], value: unknown): boolean {
+  const actual = typeOf(value);
+  return actual === type || (type === 'number' && actual === 'integer');
+}
+
+function resolve(schema: Schema, components: SchemaComponents): Schema {
+  if (!schema.$ref) return schema;
+  const target = components[schema.$ref.slice(REF_PREFIX.length)];
+  if (!schema.$ref.startsWith(REF_PREFIX) || !target) {
+    throw new Error(`Unresolvable schema reference: ${schema.$ref}`);
+  }
+  return target;
+}
+
+function join(path: string, key: string | number): string {
+  if (typeof key === 'number') return `${path}[${key}]`;
+  return path ? `${path}.${key}` : key;
+}
+
+/**
+ * Check a value against a schema. Issues name the offending path and the rule it
+ * breaks; they never include the value itself, which may be user content.
+ */
+export function validateSchema(
+  schema: Schema,
+  value: unknown,
+  components: SchemaComponents,
+  path = ''
+): ValidationIssue[] {
+  const s = resolve(schema, components);
+  const at = path || '(root)';
+
+  if (value === null) {
+    return s.nullable ? [] : [{ path: at, message: 'must not be null' }];
+  }
+
+  if (s.oneOf) {
+    const matching = s.oneOf.filter(
+      (option) => validateSchema(option, value, components, path).length === 0
+    );
+    return matching.length === 1
+      ? []
+      : [{ path: at, message: 'must match exactly one of the allowed shapes' }];
+  }
+
+  if (s.type && !matchesType(s.type, value)) {
+    return [{ path: at, message: `must be ${/^[aeiou]/.test(s.type) ? 'an' : 'a'} ${s.type}` }];
+  }
+
+  if (s.enum && !s.enum.includes(value as string | number)) {
+    return [{ path: at, message: `must be one of ${s.enum.join(', ')}` }];
+  }
+
+  const issues: ValidationIssue[] = [];
+
+  if (typeof value === 'string') {
+    if (s.minLength !== undefined && value.length < s.minLength) {
+      issues.push({
+        path: at,
+        message: s.minLength === 1 ? 'must not be empty' : `must be at least ${s.minLength} characters`,
+      });
+    }
+    if (s.maxLength !== undefined && value.length > s.maxLength) {
+      issues.push({ path: at, message: `must be at most ${s.maxLength} characters` });
+    }
+    if (s.pattern !== undefined && !new RegExp(s.pattern).test(value)) {
+      issues.push({ path: at, message: 'has an invalid format' });
+    }
+    if (s.format === 'date-time' && Number.isNaN(Date.parse(value))) {
+      issues.push({ path: at, message: 'must be an ISO 8601 timestamp' });
+    }
+  }
+
+  if (typeof value === 'number') {
+    if (s.minimum !== undefined && value < s.minimum) {
+      issues.push({ path: at, message: `must be at least ${s.minimum}` });
+    }
+    if (s.maximum !== undefined && value > s.maximum) {
+      issues.push({ path: at, message: `must be at most ${s.maximum}` });
+    }
+  }
+
+  if (Array.isArray(value) && s.items) {
+    value.forEach((item, index) => {
+      issues.push(...validateSchema(s.items!, item, components, join(path, index)));
+    });
+  }
+
+  if (typeOf(value) === 'object' && (s.properties || s.additionalProperties === false)) {
+    const record = value as Record<string, unknown>;
+    const properties = s.properties ?? {};
+
+    for (const key of s.required ?? []) {
+      if (record[key] === undefined) {
+        issues.push({ path: join(path, key), message: 'is required' });
+      }
+    }
+    for (const [key, item] of Object.entries(record)) {
+      if (item === undefined) continue;
+      if (Object.hasOwn(properties, key)) {
+        issues.push(...validateSchema(properties[key], item, components, join(path, key)));
+      } else if (s.additionalProperties === false) {
+        issues.push({ path: join(path, key), message: 'is not a known field' });
+      }
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Convert a query or path parameter string to the schema's type, leaving it unchanged
+ * (so validation reports it) if it does not parse
+ */
+export function coerceParameter(schema: Schema, raw: string): unknown {
+  if (schema.type === 'integer' || schema.type === 'number') {
+    return raw.trim() !== '' && !Number.isNaN(Number(raw)) ? Number(raw) : raw;
+  }
+  if (schema.type === 'boolean') {
+    return raw === 'true' ? true : raw === 'false' ? false : raw;
+  }
+  return raw;
+}
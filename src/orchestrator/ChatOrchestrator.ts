@@ -1,109 +1,728 @@
-import { Mode, ChatMessage } from '../types';
+import {
+  Mode,
+  ChatMessage,
+  ChatRequest,
+  InputAnalysis,
+  ValidationResult,
+  RiskTrajectory,
+  CrisisResourceInfo,
+  LanguageDetection,
+  ContextWindow,
+  BuiltPrompt,
+  ResponseRepair,
+  PostCrisisState,
+} from '../types';
 import InputAnalyzer from '../services/InputAnalyzer';
+import RiskTrajectoryTracker from '../services/RiskTrajectoryTracker';
+import PostCrisisTracker from '../services/PostCrisisTracker';
+import CrisisResourceDirectory from '../services/CrisisResourceDirectory';
+import RulePackRegistry from '../services/RulePackRegistry';
+import { DEFAULT_LANGUAGE, getLocale } from '../locales';
 import PromptBuilder from '../services/PromptBuilder';
+import PromptRegistry from '../services/PromptRegistry';
 import ResponseValidator from '../services/ResponseValidator';
+import { getRepairInstruction } from '../prompts/repair';
 import ConversationStore from '../stores/ConversationStore';
+import ConversationSummarizer from '../services/ConversationSummarizer';
+import AuditLog from '../stores/AuditLog';
+import Metrics from '../services/Metrics';
+import { createLogger } from '../services/Logger';
 import LLMClient from '../llm/LLMClient';
 
-const PROMPT_VERSION = 'v1.0';
+const log = createLogger('ChatOrchestrator');
+
 const RECENT_MESSAGES_LIMIT = 20;
 
-// Crisis-safe template: conservative, encourages off-platform help, no step-by-step instructions
-const CRISIS_SAFE_MESSAGE =
-  "I'm really sorry you're feeling this way. You don't have to go through this alone. " +
-  "If you're in immediate danger or might act on these thoughts, please contact your local emergency number right now. " +
-  "If you can, reach out to someone you trust or a local crisis hotline. " +
-  "If you tell me what country you're in, I can help you find the right support options.";
+// Environment configuration - read lazily to allow dotenv to load first
+function getRepairAttempts(): number {
+  return parseInt(process.env.RESPONSE_REPAIR_ATTEMPTS || '2', 10);
+}
 
 type OrchestratorInput = {
   conversationId: string;
   userId?: string;
   userMessage: string;
+  client?: ChatRequest['client'];
 };
 
-type OrchestratorOutput = {
+export type OrchestratorOutput = {
   assistantMessage: string;
   mode: Mode;
   safetyFlags: string[];
   promptVersion: string;
+  rulePackVersion: string;
   llmProvider: string;
   modeReason: string;
   riskLevel: 'LOW' | 'MEDIUM' | 'HIGH';
   semanticUsed: boolean;
+  riskTrajectory: RiskTrajectory;
+  crisisResources?: CrisisResourceInfo;
+  language?: LanguageDetection;
+  context?: ContextWindow;
+  repair?: ResponseRepair;
+  postCrisis?: PostCrisisState;
 };
 
+export type OrchestratorStreamEvent =
+  | { type: 'token'; text: string }
+  | { type: 'replace'; text: string }
+  | { type: 'done'; output: OrchestratorOutput };
+
 class ChatOrchestrator {
   async handleUserMessage(input: OrchestratorInput): Promise<OrchestratorOutput> {
-    const { conversationId, userMessage } = input;
+    const { conversationId, userId, userMessage, client } = input;
 
-    // Step 1: Analyze input for intent and risk (with optional semantic classification)
-    const analysis = await InputAnalyzer.analyzeWithSemantic(userMessage);
+    // Step 0: Create the conversation on its first turn, recording its owner
+    await ConversationStore.ensureConversation(conversationId, userId);
+
+    // Step 1: Analyze input for intent and risk, adjusted for conversation-level trajectory
+    const { analysis, trajectory } = await this.assess(conversationId, userMessage, client);
     const mode = analysis.suggestedMode;
+    const language = analysis.language?.code ?? DEFAULT_LANGUAGE;
 
     // CRISIS PATH: Skip LLM, return crisis-safe template immediately
     if (mode === 'CRISIS') {
-      const timestamp = new Date().toISOString();
-      const assistantMessage = CRISIS_SAFE_MESSAGE;
-
-      // Append to conversation store
-      await ConversationStore.append(conversationId, {
-        role: 'user',
-        content: userMessage,
-        timestamp,
-      });
-      await ConversationStore.append(conversationId, {
-        role: 'assistant',
-        content: assistantMessage,
-        timestamp,
-      });
+      return this.handleCrisis(conversationId, userMessage, client, analysis, trajectory);
+    }
 
-      return {
-        assistantMessage,
-        mode: 'CRISIS',
-        safetyFlags: analysis.safetyFlags,
-        promptVersion: PROMPT_VERSION,
-        llmProvider: 'none',
-        modeReason: analysis.modeReason,
-        riskLevel: analysis.riskLevel,
-        semanticUsed: analysis.semanticUsed ?? false,
-      };
+    // POST-CRISIS PATH: Gentle check-ins until the follow-up resolves or times out
+    const postCrisis = await PostCrisisTracker.update(conversationId, userMessage, language);
+    if (postCrisis?.status === 'ACTIVE') {
+      return this.handleCheckIn(conversationId, userMessage, analysis, trajectory, postCrisis);
     }
 
     // NORMAL/SUPPORTIVE PATH: Full pipeline
 
-    // Step 2: Get recent conversation history
+    // Step 2-3: Build prompt with the history that fits the token budget, using the conversation's variant
+    const builtPrompt = await this.buildPrompt(conversationId, mode, userMessage, language);
+
+    // Step 4: Call LLM - if no provider is available, degrade to the safe fallback
+    let llmText = '';
+    let llmProvider = 'none';
+    let llmAvailable = true;
+    try {
+      const llmResponse = await LLMClient.generate({
+        messages: builtPrompt.messages,
+        temperature: 0.7,
+        maxTokens: 500,
+        promptVersion: builtPrompt.promptVersion,
+      });
+      llmText = llmResponse.text;
+      llmProvider = llmResponse.provider;
+    } catch (error) {
+      llmAvailable = false;
+      log.error('LLM unavailable, using safe fallback', { error });
+    }
+
+    // Step 5: Validate response; a rejected response is regenerated before falling back
+    let validation: ValidationResult;
+    let repair: ResponseRepair;
+    if (llmAvailable) {
+      validation = await ResponseValidator.validate(mode, userMessage, llmText, language);
+      repair = { attempts: 1, outcome: 'passed' };
+      if (!validation.isSafe) {
+        ({ text: llmText, validation, repair, provider: llmProvider } = await this.repairResponse(
+          builtPrompt,
+          mode,
+          userMessage,
+          language,
+          validation,
+          llmProvider
+        ));
+      }
+    } else {
+      validation = this.getUnavailableResult(mode, language);
+      repair = { attempts: 0, outcome: 'unavailable' };
+    }
+
+    let assistantMessage = validation.isSafe
+      ? llmText
+      : (validation.sanitizedText || llmText);
+
+    // Follow up on the crisis template's offer once the user names their country
+    const followUp = this.getCrisisFollowUp(userMessage, trajectory.crisisCooldownActive, language);
+    if (followUp) {
+      assistantMessage = `${assistantMessage}\n\n${followUp.text}`;
+    }
+
+    // Step 6: Append messages to conversation store
+    await this.persistTurn(conversationId, userMessage, assistantMessage, mode, language);
+
+    // Step 7: Combine safety flags from analysis and validation
+    const combinedSafetyFlags = [
+      ...analysis.safetyFlags,
+      ...validation.safetyFlags,
+    ];
+
+    const output: OrchestratorOutput = {
+      assistantMessage,
+      mode,
+      safetyFlags: combinedSafetyFlags,
+      promptVersion: builtPrompt.promptVersion,
+      rulePackVersion: this.getRulePackVersion(analysis),
+      llmProvider,
+      modeReason: analysis.modeReason,
+      riskLevel: analysis.riskLevel,
+      semanticUsed: analysis.semanticUsed ?? false,
+      riskTrajectory: trajectory,
+      crisisResources: followUp?.info,
+      language: analysis.language,
+      context: builtPrompt.context,
+      repair,
+      postCrisis: postCrisis ?? undefined,
+    };
+
+    // Step 8: Record the turn's safety decisions
+    await this.audit(conversationId, userMessage, output, analysis, validation);
+
+    return output;
+  }
+
+  /**
+   * Streaming variant of handleUserMessage.
+   * Tokens are validated incrementally; if an unsafe pattern appears partway
+   * through, generation stops and a 'replace' event carries the safe fallback.
+   */
+  async *streamUserMessage(
+    input: OrchestratorInput
+  ): AsyncGenerator<OrchestratorStreamEvent> {
+    const { conversationId, userId, userMessage, client } = input;
+
+    await ConversationStore.ensureConversation(conversationId, userId);
+
+    const { analysis, trajectory } = await this.assess(conversationId, userMessage, client);
+    const mode = analysis.suggestedMode;
+    const language = analysis.language?.code ?? DEFAULT_LANGUAGE;
+
+    // CRISIS PATH: No LLM involved, send the template as a single chunk
+    if (mode === 'CRISIS') {
+      const output = await this.handleCrisis(
+        conversationId,
+        userMessage,
+        client,
+        analysis,
+        trajectory
+      );
+      yield { type: 'token', text: output.assistantMessage };
+      yield { type: 'done', output };
+      return;
+    }
+
+    // POST-CRISIS PATH: Check-ins are short and judged as a whole, sent as a single chunk
+    const postCrisis = await PostCrisisTracker.update(conversationId, userMessage, language);
+    if (postCrisis?.status === 'ACTIVE') {
+      const output = await this.handleCheckIn(
+        conversationId,
+        userMessage,
+        analysis,
+        trajectory,
+        postCrisis
+      );
+      yield { type: 'token', text: output.assistantMessage };
+      yield { type: 'done', output };
+      return;
+    }
+
+    const builtPrompt = await this.buildPrompt(conversationId, mode, userMessage, language);
+
+    let accumulated = '';
+    let emittedLength = 0;
+    let validation: ValidationResult = { isSafe: true, safetyFlags: [] };
+    let llmProvider = 'none';
+    let llmAvailable = true;
+
+    // Breaking out of this loop aborts the provider stream
+    try {
+      const stream = LLMClient.generateStream(
+        {
+          messages: builtPrompt.messages,
+          temperature: 0.7,
+          maxTokens: 500,
+          promptVersion: builtPrompt.promptVersion,
+        },
+        'chat',
+        (provider) => {
+          llmProvider = provider;
+        }
+      );
+      for await (const chunk of stream) {
+        accumulated += chunk;
+
+        const check = await ResponseValidator.validatePartial(
+          mode,
+          userMessage,
+          accumulated,
+          false,
+          language
+        );
+
+        if (!check.validation.isSafe) {
+          validation = check.validation;
+          break;
+        }
+
+        if (check.releasableLength > emittedLength) {
+          yield { type: 'token', text: accumulated.slice(emittedLength, check.releasableLength) };
+          emittedLength = check.releasableLength;
+        }
+      }
+    } catch (error) {
+      // No provider available, or the stream broke off: replace with the safe fallback
+      llmAvailable = false;
+      llmProvider = 'none';
+      validation = this.getUnavailableResult(mode, language);
+      log.error('LLM stream unavailable, using safe fallback', { error });
+    }
+
+    let assistantMessage: string;
+
+    if (validation.isSafe) {
+      // Release the held-back tail once the full text has passed validation
+      const finalCheck = await ResponseValidator.validatePartial(
+        mode,
+        userMessage,
+        accumulated,
+        true,
+        language
+      );
+      validation = finalCheck.validation;
+    }
+
+    let repair: ResponseRepair = llmAvailable
+      ? { attempts: 1, outcome: 'passed' }
+      : { attempts: 0, outcome: 'unavailable' };
+
+    if (validation.isSafe) {
+      assistantMessage = accumulated;
+      if (accumulated.length > emittedLength) {
+        yield { type: 'token', text: accumulated.slice(emittedLength) };
+      }
+    } else if (llmAvailable) {
+      // Regenerate without streaming and replace what was sent
+      const repaired = await this.repairResponse(
+        builtPrompt,
+        mode,
+        userMessage,
+        language,
+        validation,
+        llmProvider
+      );
+      validation = repaired.validation;
+      repair = repaired.repair;
+      llmProvider = repaired.provider;
+      assistantMessage = validation.isSafe ? repaired.text : validation.sanitizedText || '';
+      yield { type: 'replace', text: assistantMessage };
+    } else {
+      assistantMessage = validation.sanitizedText || '';
+      yield { type: 'replace', text: assistantMessage };
+    }
+
+    const followUp = this.getCrisisFollowUp(userMessage, trajectory.crisisCooldownActive, language);
+    if (followUp) {
+      const followUpText = `\n\n${followUp.text}`;
+      assistantMessage += followUpText;
+      yield { type: 'token', text: followUpText };
+    }
+
+    await this.persistTurn(conversationId, userMessage, assistantMessage, mode, language);
+
+    const output: OrchestratorOutput = {
+      assistantMessage,
+      mode,
+      safetyFlags: [...analysis.safetyFlags, ...validation.safetyFlags],
+      promptVersion: builtPrompt.promptVersion,
+      rulePackVersion: this.getRulePackVersion(analysis),
+      llmProvider,
+      modeReason: analysis.modeReason,
+      riskLevel: analysis.riskLevel,
+      semanticUsed: analysis.semanticUsed ?? false,
+      riskTrajectory: trajectory,
+      crisisResources: followUp?.info,
+      language: analysis.language,
+      context: builtPrompt.context,
+      repair,
+      postCrisis: postCrisis ?? undefined,
+    };
+
+    await this.audit(conversationId, userMessage, output, analysis, validation);
+
+    yield { type: 'done', output };
+  }
+
+  /**
+   * Per-turn analysis (rules + optional semantic), then conversation-level adjustment
+   */
+  private async assess(
+    conversationId: string,
+    userMessage: string,
+    client: ChatRequest['client']
+  ): Promise<{ analysis: InputAnalysis; trajectory: RiskTrajectory }> {
+    const turnAnalysis = await InputAnalyzer.analyzeWithSemantic(userMessage, client?.locale);
+    return RiskTrajectoryTracker.update(conversationId, turnAnalysis);
+  }
+
+  /**
+   * Regenerate a rejected response with a corrective instruction naming the broken
+   * rule, up to RESPONSE_REPAIR_ATTEMPTS times. The returned validation carries the
+   * flags of every rejected attempt; it is unsafe (with the safe fallback) if no
+   * attempt passed. provider wrote the rejected response; the returned provider
+   * wrote the last attempt.
+   */
+  private async repairResponse(
+    builtPrompt: BuiltPrompt,
+    mode: Mode,
+    userMessage: string,
+    language: string,
+    rejected: ValidationResult,
+    provider: string
+  ): Promise<{
+    text: string;
+    validation: ValidationResult;
+    repair: ResponseRepair;
+    provider: string;
+  }> {
+    const rejectedFlags = new Set(rejected.safetyFlags);
+    let last = rejected;
+    let attempts = 1;
+
+    Metrics.recordValidatorRejection(rejected.safetyFlags, provider, builtPrompt.promptVersion);
+
+    while (attempts <= getRepairAttempts()) {
+      const instruction = getRepairInstruction(last.safetyFlags);
+      if (!instruction) break;
+
+      let text: string;
+      try {
+        const llmResponse = await LLMClient.generate({
+          messages: [...builtPrompt.messages, { role: 'system', content: instruction }],
+          temperature: 0.7,
+          maxTokens: 500,
+          promptVersion: builtPrompt.promptVersion,
+        });
+        text = llmResponse.text;
+        provider = llmResponse.provider;
+      } catch (error) {
+        log.warn('Repair attempt failed, using safe fallback', { error });
+        break;
+      }
+      attempts++;
+
+      const validation = await ResponseValidator.validate(mode, userMessage, text, language);
+      if (validation.isSafe) {
+        return {
+          text,
+          validation: {
+            isSafe: true,
+            safetyFlags: [...rejectedFlags],
+            reason: `Repaired after: ${rejected.reason}`,
+          },
+          repair: { attempts, outcome: 'repaired' },
+          provider,
+        };
+      }
+
+      Metrics.recordValidatorRejection(validation.safetyFlags, provider, builtPrompt.promptVersion);
+      validation.safetyFlags.forEach((flag) => rejectedFlags.add(flag));
+      last = validation;
+    }
+
+    return {
+      text: '',
+      validation: {
+        isSafe: false,
+        safetyFlags: [...rejectedFlags],
+        sanitizedText: ResponseValidator.getSafeFallback(mode, language),
+        reason: last.reason,
+      },
+      repair: { attempts, outcome: 'fallback' },
+      provider,
+    };
+  }
+
+  /**
+   * Validation result used when no LLM response could be obtained
+   */
+  private getUnavailableResult(mode: Mode, language: string): ValidationResult {
+    return {
+      isSafe: false,
+      safetyFlags: ['LLM_UNAVAILABLE'],
+      sanitizedText: ResponseValidator.getSafeFallback(mode, language),
+      reason: 'No LLM provider available',
+    };
+  }
+
+  /**
+   * Version of the rule pack the turn was assessed with
+   */
+  private getRulePackVersion(analysis: InputAnalysis): string {
+    return analysis.rulePackVersion ?? RulePackRegistry.getVersion();
+  }
+
+  /**
+   * CRISIS path: store the turn and return the crisis-safe template
+   */
+  private async handleCrisis(
+    conversationId: string,
+    userMessage: string,
+    client: ChatRequest['client'],
+    analysis: InputAnalysis,
+    trajectory: RiskTrajectory
+  ): Promise<OrchestratorOutput> {
+    // Resolve country from the conversation, locale or timezone
     const recentMessages = await ConversationStore.getRecent(
       conversationId,
       RECENT_MESSAGES_LIMIT
     );
-
-    // Step 3: Build prompt with context
-    const builtPrompt = await PromptBuilder.build({
-      mode,
-      recentMessages,
+    const userTexts = [
       userMessage,
-      promptVersion: PROMPT_VERSION,
+      ...recentMessages
+        .filter((m) => m.role === 'user')
+        .map((m) => m.content)
+        .reverse(),
+    ];
+    const resolution = CrisisResourceDirectory.resolveCountry({
+      userTexts,
+      locale: client?.locale,
+      timezone: client?.timezone,
     });
+    const countryCode = resolution?.countryCode ?? null;
 
-    // Step 4: Call LLM
-    const llmResponse = await LLMClient.generate({
-      messages: builtPrompt.messages,
-      temperature: 0.7,
-      maxTokens: 500,
-    });
+    // Start (or restart) the post-crisis follow-up
+    const postCrisis = await PostCrisisTracker.recordCrisis(
+      conversationId,
+      resolution?.source === 'USER_MENTION'
+    );
+
+    // Crisis-safe template: conservative, encourages off-platform help, no step-by-step instructions
+    const language = analysis.language?.code ?? DEFAULT_LANGUAGE;
+    const assistantMessage =
+      `${getLocale(language).templates.crisisSafeMessage} ` +
+      CrisisResourceDirectory.formatResources(countryCode, language);
+
+    await this.persistTurn(conversationId, userMessage, assistantMessage, 'CRISIS', language);
+
+    const output: OrchestratorOutput = {
+      assistantMessage,
+      mode: 'CRISIS',
+      safetyFlags: analysis.safetyFlags,
+      // No prompt is built, but the variant is reported so CRISIS turns can be compared too
+      promptVersion: PromptRegistry.assign(conversationId),
+      rulePackVersion: this.getRulePackVersion(analysis),
+      llmProvider: 'none',
+      modeReason: analysis.modeReason,
+      riskLevel: analysis.riskLevel,
+      semanticUsed: analysis.semanticUsed ?? false,
+      riskTrajectory: trajectory,
+      crisisResources: {
+        countryCode,
+        countrySource: resolution?.source ?? null,
+        directoryVersion: CrisisResourceDirectory.getVersion(),
+      },
+      language: analysis.language,
+      postCrisis,
+    };
+
+    // The template is not validated: there is no LLM output to check
+    await this.audit(conversationId, userMessage, output, analysis, null);
+
+    return output;
+  }
+
+  /**
+   * POST-CRISIS check-in turn: constrained prompt, reply always judged and never
+   * repaired; a rejected reply is replaced with the check-in template
+   */
+  private async handleCheckIn(
+    conversationId: string,
+    userMessage: string,
+    turnAnalysis: InputAnalysis,
+    trajectory: RiskTrajectory,
+    postCrisis: PostCrisisState
+  ): Promise<OrchestratorOutput> {
+    // Check-ins are at least SUPPORTIVE
+    const analysis: InputAnalysis =
+      turnAnalysis.suggestedMode === 'NORMAL'
+        ? {
+            ...turnAnalysis,
+            riskLevel: 'MEDIUM',
+            suggestedMode: 'SUPPORTIVE',
+            modeReason: 'POST_CRISIS_CHECK_IN',
+            safetyFlags: [...turnAnalysis.safetyFlags, 'POST_CRISIS_CHECK_IN'],
+          }
+        : { ...turnAnalysis, safetyFlags: [...turnAnalysis.safetyFlags, 'POST_CRISIS_CHECK_IN'] };
+    const mode = analysis.suggestedMode;
+    const language = analysis.language?.code ?? DEFAULT_LANGUAGE;
 
-    // Step 5: Validate response and get safe text
-    const validation = await ResponseValidator.validate(
+    const builtPrompt = await this.buildPrompt(
+      conversationId,
       mode,
       userMessage,
-      llmResponse.text
+      language,
+      postCrisis
     );
 
-    const assistantMessage = validation.isSafe
-      ? llmResponse.text
-      : (validation.sanitizedText || llmResponse.text);
+    let llmText = '';
+    let llmProvider = 'none';
+    let llmAvailable = true;
+    try {
+      const llmResponse = await LLMClient.generate({
+        messages: builtPrompt.messages,
+        temperature: 0.3,
+        maxTokens: 250,
+        promptVersion: builtPrompt.promptVersion,
+      });
+      llmText = llmResponse.text;
+      llmProvider = llmResponse.provider;
+    } catch (error) {
+      llmAvailable = false;
+      log.error('LLM unavailable, using check-in template', { error });
+    }
+
+    const validation = llmAvailable
+      ? await ResponseValidator.validate(mode, userMessage, llmText, language, {
+          requireJudge: true,
+        })
+      : this.getUnavailableResult(mode, language);
 
-    // Step 6: Append messages to conversation store
+    let assistantMessage = llmText;
+    if (!validation.isSafe) {
+      assistantMessage = getLocale(language).templates.postCrisisCheckIn;
+      validation.sanitizedText = assistantMessage;
+      if (llmAvailable) {
+        Metrics.recordValidatorRejection(
+          validation.safetyFlags,
+          llmProvider,
+          builtPrompt.promptVersion
+        );
+      }
+    }
+
+    const followUp = this.getCrisisFollowUp(userMessage, true, language);
+    if (followUp) {
+      assistantMessage = `${assistantMessage}\n\n${followUp.text}`;
+    }
+
+    await this.persistTurn(conversationId, userMessage, assistantMessage, mode, language);
+
+    const output: OrchestratorOutput = {
+      assistantMessage,
+      mode,
+      safetyFlags: [...analysis.safetyFlags, ...validation.safetyFlags],
+      promptVersion: builtPrompt.promptVersion,
+      rulePackVersion: this.getRulePackVersion(analysis),
+      llmProvider,
+      modeReason: analysis.modeReason,
+      riskLevel: analysis.riskLevel,
+      semanticUsed: analysis.semanticUsed ?? false,
+      riskTrajectory: trajectory,
+      crisisResources: followUp?.info,
+      language: analysis.language,
+      context: builtPrompt.context,
+      repair: llmAvailable
+        ? { attempts: 1, outcome: validation.isSafe ? 'passed' : 'fallback' }
+        : { attempts: 0, outcome: 'unavailable' },
+      postCrisis,
+    };
+
+    await this.audit(conversationId, userMessage, output, analysis, validation);
+
+    return output;
+  }
+
+  /**
+   * Append the turn's safety decisions to the audit log
+   */
+  private async audit(
+    conversationId: string,
+    userMessage: string,
+    output: OrchestratorOutput,
+    analysis: InputAnalysis,
+    validation: ValidationResult | null
+  ): Promise<void> {
+    await AuditLog.record(
+      conversationId,
+      {
+        mode: output.mode,
+        modeReason: output.modeReason,
+        riskLevel: output.riskLevel,
+        safetyFlags: output.safetyFlags,
+        semantic: {
+          used: output.semanticUsed,
+          riskLevel: analysis.semanticRiskLevel,
+          modeReason: analysis.semanticModeReason,
+        },
+        trajectory: {
+          trend: output.riskTrajectory.trend,
+          cumulativeScore: output.riskTrajectory.cumulativeScore,
+          crisisCooldownActive: output.riskTrajectory.crisisCooldownActive,
+        },
+        validation: validation && {
+          isSafe: validation.isSafe,
+          flags: validation.safetyFlags,
+          reason: validation.reason,
+        },
+        repair: output.repair,
+        llmProvider: output.llmProvider,
+        rulePackVersion: output.rulePackVersion,
+        promptVersion: output.promptVersion,
+      },
+      { userMessage, assistantMessage: output.assistantMessage }
+    );
+  }
+
+  /**
+   * After a crisis turn, a country named in the current message gets its resources
+   */
+  private getCrisisFollowUp(
+    userMessage: string,
+    afterCrisis: boolean,
+    language: string
+  ): { text: string; info: CrisisResourceInfo } | null {
+    if (!afterCrisis) return null;
+
+    const resolution = CrisisResourceDirectory.resolveCountry({ userTexts: [userMessage] });
+    if (!resolution) return null;
+
+    return {
+      text: CrisisResourceDirectory.formatResources(resolution.countryCode, language),
+      info: {
+        countryCode: resolution.countryCode,
+        countrySource: resolution.source,
+        directoryVersion: CrisisResourceDirectory.getVersion(),
+      },
+    };
+  }
+
+  private async buildPrompt(
+    conversationId: string,
+    mode: Mode,
+    userMessage: string,
+    language: string,
+    checkIn?: PostCrisisState
+  ) {
+    // All stored history and the summary of older messages: PromptBuilder keeps as much
+    // history as fits the model's token budget
+    const conversation = await ConversationStore.getConversation(conversationId);
+
+    return PromptBuilder.build({
+      mode,
+      recentMessages: conversation?.messages ?? [],
+      userMessage,
+      promptVersion: PromptRegistry.assign(conversationId),
+      language,
+      model: LLMClient.getModel(),
+      summary: conversation?.summary?.text,
+      checkIn,
+    });
+  }
+
+  private async persistTurn(
+    conversationId: string,
+    userMessage: string,
+    assistantMessage: string,
+    mode: Mode,
+    language: string
+  ): Promise<void> {
     const timestamp = new Date().toISOString();
 
     const userChatMessage: ChatMessage = {
@@ -116,27 +735,14 @@ class ChatOrchestrator {
       role: 'assistant',
       content: assistantMessage,
       timestamp,
+      mode,
     };
 
     await ConversationStore.append(conversationId, userChatMessage);
     await ConversationStore.append(conversationId, assistantChatMessage);
 
-    // Step 7: Combine safety flags from analysis and validation
-    const combinedSafetyFlags = [
-      ...analysis.safetyFlags,
-      ...validation.safetyFlags,
-    ];
-
-    return {
-      assistantMessage,
-      mode,
-      safetyFlags: combinedSafetyFlags,
-      promptVersion: PROMPT_VERSION,
-      llmProvider: LLMClient.getProvider(),
-      modeReason: analysis.modeReason,
-      riskLevel: analysis.riskLevel,
-      semanticUsed: analysis.semanticUsed ?? false,
-    };
+    // Fold messages that left the window into the rolling summary (in the background)
+    ConversationSummarizer.scheduleUpdate(conversationId, language);
   }
 }
 
@@ -0,0 +1,29 @@
+import { PostCrisisState } from '../types';
+
+// Constrained instructions for post-crisis check-in turns, sent as their own system
+// block. Only what is still open is asked about, one question per reply.
+const CHECK_IN_BLOCK = `POST-CRISIS CHECK-IN:
+Earlier in this conversation the user said something suggesting they might be in danger, and they were given crisis resources. This reply is a gentle check-in.
+- Respond briefly (2-4 sentences) and warmly to what the user just said.
+- Ask at most one gentle question, about one of these open points:
+{open}
+- Do not give advice, techniques or information beyond encouraging them to contact people or services who can help.
+- Do not pressure, lecture, or repeat the crisis message.`;
+
+/**
+ * Check-in system block for the points the user has not settled yet
+ */
+export function getCheckInInstruction(state: PostCrisisState): string {
+  const open: string[] = [];
+  if (!state.safetyConfirmed) {
+    open.push('whether they are safe right now');
+  }
+  if (!state.reachedOut) {
+    open.push('whether they have been able to reach someone they trust or a crisis line');
+  }
+  if (!state.countryShared) {
+    open.push('which country they are in, so local crisis lines can be shared');
+  }
+
+  return CHECK_IN_BLOCK.replace('{open}', open.map((point) => `  - ${point}`).join('\n'));
+}
@@ -0,0 +1,24 @@
+import { PromptTemplate } from '../types';
+import baseline from './baseline';
+import reflective from './reflective';
+
+export const DEFAULT_PROMPT_VERSION = baseline.version;
+
+const TEMPLATES: Record<string, PromptTemplate> = Object.fromEntries(
+  [baseline, reflective].map((template) => [template.version, template])
+);
+
+export function isKnownPromptVersion(version: string): boolean {
+  return version in TEMPLATES;
+}
+
+/**
+ * Prompt template for a version, falling back to the default version
+ */
+export function getPromptTemplate(version: string): PromptTemplate {
+  return TEMPLATES[version] || TEMPLATES[DEFAULT_PROMPT_VERSION];
+}
+
+export function getAllPromptTemplates(): PromptTemplate[] {
+  return Object.values(TEMPLATES);
+}
@@ -0,0 +1,36 @@
+// Corrective instructions for regenerating a reply the validator rejected, by safety
+// flag (rule pass and judge pass). Flags without an instruction, such as a judge
+// timeout, say nothing the model could fix and go straight to the safe fallback.
+const REPAIR_RULES: { flags: string[]; rule: string }[] = [
+  {
+    flags: ['DIAGNOSIS_DETECTED', 'JUDGE_DIAGNOSIS_DETECTED'],
+    rule: 'It named or suggested a diagnosis or condition. Do not name, suggest or imply any disorder or condition; reflect what the user described in their own words instead.',
+  },
+  {
+    flags: ['MEDICATION_ADVICE_DETECTED', 'JUDGE_MEDICATION_ADVICE_DETECTED'],
+    rule: 'It gave medication advice. Do not mention medications, doses or changes to treatment; if it matters, suggest talking to a doctor or pharmacist.',
+  },
+  {
+    flags: ['ABSOLUTE_GUARANTEE_DETECTED', 'JUDGE_ABSOLUTE_GUARANTEE_DETECTED'],
+    rule: 'It promised an outcome. Do not promise or guarantee how things will turn out; offer hope and support without certainty.',
+  },
+  {
+    flags: ['JUDGE_HARMFUL_CONTENT_DETECTED'],
+    rule: 'It could harm the user. Do not give anything that facilitates self-harm, violence or substance misuse, and do not be dismissive; respond with care.',
+  },
+];
+
+/**
+ * System instruction telling the model which rule its previous reply broke,
+ * or null if none of the flags can be repaired
+ */
+export function getRepairInstruction(safetyFlags: string[]): string | null {
+  const rules = REPAIR_RULES.filter((r) => r.flags.some((flag) => safetyFlags.includes(flag))).map(
+    (r) => `- ${r.rule}`
+  );
+  if (rules.length === 0) return null;
+
+  return `Your previous reply was not shown to the user because it broke the rules below:
+${rules.join('\n')}
+Write a new reply to the user's last message that follows all of the rules. Do not mention the previous reply.`;
+}
@@ -0,0 +1,46 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import { AuditQueryResponse, Mode } from '../types';
+import AuditLog from '../stores/AuditLog';
+import { validateRequest } from '../middleware/validateRequest';
+import { operations } from '../openapi/spec';
+
+const router = Router();
+
+const DEFAULT_AUDIT_LIMIT = 100;
+
+function getStringParam(req: Request, name: string): string | undefined {
+  const value = req.query[name];
+  return typeof value === 'string' && value.length > 0 ? value : undefined;
+}
+
+// GET /v1/admin/audit?conversationId=&conversationRef=&from=&to=&flag=&mode=&limit=
+// (parameter formats and ranges are checked against the spec before the handler runs)
+router.get(
+  '/audit',
+  validateRequest(operations.queryAudit),
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const limitText = getStringParam(req, 'limit');
+
+      const entries = await AuditLog.query({
+        conversationId: getStringParam(req, 'conversationId'),
+        conversationRef: getStringParam(req, 'conversationRef'),
+        from: getStringParam(req, 'from'),
+        to: getStringParam(req, 'to'),
+        flag: getStringParam(req, 'flag'),
+        mode: getStringParam(req, 'mode') as Mode | undefined,
+        limit: limitText === undefined ? DEFAULT_AUDIT_LIMIT : Number(limitText),
+      });
+
+      const response: AuditQueryResponse = {
+        entries,
+        count: entries.length,
+      };
+      res.json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+export default router;
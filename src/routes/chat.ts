@@ -1,92 +1,235 @@
 import { Router, Request, Response, NextFunction } from 'express';
-import { ChatRequest, ChatResponse } from '../types';
-import ChatOrchestrator from '../orchestrator/ChatOrchestrator';
+import {
+  ChatRequest,
+  ChatResponse,
+  ChatHistoryResponse,
+  ChatStreamEvent,
+  ConversationExport,
+  StoredConversation,
+} from '../types';
+import ChatOrchestrator, { OrchestratorOutput } from '../orchestrator/ChatOrchestrator';
 import ConversationStore from '../stores/ConversationStore';
+import { getAuth } from '../middleware/auth';
+import { limitChatMessages } from '../middleware/rateLimit';
+import { validateRequest } from '../middleware/validateRequest';
+import { sendError, buildError } from '../middleware/errors';
+import { operations } from '../openapi/spec';
+import Metrics from '../services/Metrics';
+import { createLogger } from '../services/Logger';
+
+const log = createLogger('Chat');
 
 const router = Router();
 
+function buildChatResponse(
+  conversationId: string,
+  result: OrchestratorOutput,
+  latencyMs: number
+): ChatResponse {
+  return {
+    conversationId,
+    assistantMessage: result.assistantMessage,
+    mode: result.mode,
+    metadata: {
+      latencyMs,
+      safetyFlags: result.safetyFlags,
+      promptVersion: result.promptVersion,
+      rulePackVersion: result.rulePackVersion,
+      llmProvider: result.llmProvider,
+      modeReason: result.modeReason,
+      riskLevel: result.riskLevel,
+      semanticUsed: result.semanticUsed,
+      riskTrajectory: result.riskTrajectory,
+      crisisResources: result.crisisResources,
+      language: result.language,
+      context: result.context,
+      repair: result.repair,
+      postCrisis: result.postCrisis,
+    },
+  };
+}
+
+function rejectForbidden(res: Response, message: string): void {
+  sendError(res, 403, 'FORBIDDEN', message);
+}
+
+/**
+ * Load a conversation the authenticated user owns, writing a 404/403 response otherwise
+ */
+async function loadOwnedConversation(
+  res: Response,
+  conversationId: string
+): Promise<StoredConversation | null> {
+  const conversation = await ConversationStore.getConversation(conversationId);
+
+  if (!conversation) {
+    sendError(res, 404, 'NOT_FOUND', 'Conversation not found');
+    return null;
+  }
+
+  if (conversation.ownerId !== getAuth(res).userId) {
+    rejectForbidden(res, 'This conversation belongs to another user');
+    return null;
+  }
+
+  return conversation;
+}
+
+/**
+ * Route middleware (after validation): check that the authenticated user may post
+ * to the conversation, creating it (owned by them) on the first message. Answers
+ * 403 otherwise. Mounted before the rate limiter, so a rejected post neither uses
+ * up the owner's tokens nor reads the conversation's crisis state.
+ */
+async function authorizeChatRequest(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const body = req.body as ChatRequest;
+    const { userId } = getAuth(res);
+
+    if (body.userId !== undefined && body.userId !== userId) {
+      rejectForbidden(res, 'userId does not match the authenticated user');
+      return;
+    }
+
+    const ownerId = await ConversationStore.ensureConversation(body.conversationId, userId);
+    if (ownerId !== userId) {
+      rejectForbidden(res, 'This conversation belongs to another user');
+      return;
+    }
+
+    next();
+  } catch (error) {
+    next(error);
+  }
+}
+
+function writeSseEvent(res: Response, streamEvent: ChatStreamEvent): void {
+  res.write(`event: ${streamEvent.event}\ndata: ${JSON.stringify(streamEvent.data)}\n\n`);
+}
+
 // GET /v1/chat/history?conversationId=...
 router.get(
   '/history',
+  validateRequest(operations.getHistory),
   async (req: Request, res: Response, next: NextFunction): Promise<void> => {
     try {
       const conversationId = req.query.conversationId as string;
 
-      if (!conversationId) {
-        res.status(400).json({
-          error: 'Bad Request',
-          message: 'conversationId query parameter is required',
-        });
+      const conversation = await ConversationStore.getConversation(conversationId);
+      if (conversation && conversation.ownerId !== getAuth(res).userId) {
+        rejectForbidden(res, 'This conversation belongs to another user');
         return;
       }
 
-      const messages = await ConversationStore.getRecent(conversationId, 20);
+      const messages = conversation ? conversation.messages.slice(-20) : [];
 
-      res.json({
+      const history: ChatHistoryResponse = {
         conversationId,
         messages,
         count: messages.length,
-      });
+      };
+      res.json(history);
     } catch (error) {
       next(error);
     }
   }
 );
 
-router.post(
-  '/send',
+// GET /v1/chat/conversations/:id/export - portable JSON copy of the conversation
+router.get(
+  '/conversations/:id/export',
+  validateRequest(operations.exportConversation),
   async (req: Request, res: Response, next: NextFunction): Promise<void> => {
-    const startTime = Date.now();
-
     try {
-      const body = req.body as Partial<ChatRequest>;
-
-      // Validate required fields
-      if (!body.conversationId || typeof body.conversationId !== 'string') {
-        res.status(400).json({
-          error: 'Bad Request',
-          message: 'conversationId is required and must be a string',
-        });
+      const conversation = await loadOwnedConversation(res, req.params.id);
+      if (!conversation) {
         return;
       }
 
-      if (!body.message || typeof body.message !== 'string') {
-        res.status(400).json({
-          error: 'Bad Request',
-          message: 'message is required and must be a string',
-        });
+      const exported: ConversationExport = {
+        format: 'conversation-export',
+        formatVersion: 1,
+        exportedAt: new Date().toISOString(),
+        conversationId: conversation.conversationId,
+        createdAt: conversation.createdAt,
+        lastActivityAt: conversation.lastActivityAt,
+        // Messages still waiting to be summarized are stored data too
+        messages: [...(conversation.summaryBacklog ?? []), ...conversation.messages].map(
+          ({ role, content, timestamp, mode }) => ({
+            role,
+            content,
+            timestamp,
+            mode,
+          })
+        ),
+        summary: conversation.summary,
+      };
+
+      const fileName = conversation.conversationId.replace(/[^A-Za-z0-9_-]/g, '_').slice(0, 64);
+      res.setHeader('Content-Disposition', `attachment; filename="conversation-${fileName}.json"`);
+      res.json(exported);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// DELETE /v1/chat/conversations/:id - hard delete, including derived state
+router.delete(
+  '/conversations/:id',
+  validateRequest(operations.deleteConversation),
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const conversation = await loadOwnedConversation(res, req.params.id);
+      if (!conversation) {
         return;
       }
 
+      await ConversationStore.delete(conversation.conversationId);
+      log.info('Conversation deleted on user request');
+
+      res.status(204).end();
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+router.post(
+  '/send',
+  validateRequest(operations.sendMessage),
+  authorizeChatRequest,
+  limitChatMessages,
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const startTime = Date.now();
+
+    try {
+      const body = req.body as ChatRequest;
+
       // Process through orchestrator
       const result = await ChatOrchestrator.handleUserMessage({
         conversationId: body.conversationId,
-        userId: body.userId,
+        userId: getAuth(res).userId,
         userMessage: body.message,
+        client: body.client,
       });
 
       const latencyMs = Date.now() - startTime;
 
       // Log mode and latency
-      console.log(
-        `[Chat] conversationId=${body.conversationId} mode=${result.mode} latencyMs=${latencyMs}`
-      );
-
-      // Build response
-      const response: ChatResponse = {
+      log.info('Turn completed', {
         conversationId: body.conversationId,
-        assistantMessage: result.assistantMessage,
         mode: result.mode,
-        metadata: {
-          latencyMs,
-          safetyFlags: result.safetyFlags,
-          promptVersion: result.promptVersion,
-          llmProvider: result.llmProvider,
-          modeReason: result.modeReason,
-          riskLevel: result.riskLevel,
-          semanticUsed: result.semanticUsed,
-        },
-      };
+        latencyMs,
+      });
+      Metrics.recordTurn({ ...result, latencyMs });
+
+      // Build response
+      const response = buildChatResponse(body.conversationId, result, latencyMs);
 
       res.json(response);
     } catch (error) {
@@ -95,5 +238,71 @@ router.post(
   }
 );
 
+// POST /v1/chat/stream - same pipeline as /send, streamed as Server-Sent Events
+router.post(
+  '/stream',
+  validateRequest(operations.streamMessage),
+  authorizeChatRequest,
+  limitChatMessages,
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const startTime = Date.now();
+    const body = req.body as ChatRequest;
+
+    // Stop pulling tokens (and abort the LLM stream) if the client goes away
+    let clientClosed = false;
+    res.on('close', () => {
+      clientClosed = true;
+    });
+
+    try {
+      res.status(200);
+      res.setHeader('Content-Type', 'text/event-stream');
+      res.setHeader('Cache-Control', 'no-cache');
+      res.setHeader('Connection', 'keep-alive');
+      res.flushHeaders();
+
+      for await (const streamEvent of ChatOrchestrator.streamUserMessage({
+        conversationId: body.conversationId,
+        userId: getAuth(res).userId,
+        userMessage: body.message,
+        client: body.client,
+      })) {
+        if (clientClosed) break;
+
+        if (streamEvent.type === 'done') {
+          const latencyMs = Date.now() - startTime;
+          log.info('Turn completed', {
+            conversationId: body.conversationId,
+            mode: streamEvent.output.mode,
+            latencyMs,
+            stream: true,
+          });
+          Metrics.recordTurn({ ...streamEvent.output, latencyMs });
+          writeSseEvent(res, {
+            event: 'done',
+            data: buildChatResponse(body.conversationId, streamEvent.output, latencyMs),
+          });
+        } else {
+          writeSseEvent(res, { event: streamEvent.type, data: { text: streamEvent.text } });
+        }
+      }
+
+      res.end();
+    } catch (error) {
+      // Headers are already sent, so report the failure in-band
+      if (res.headersSent) {
+        log.error('Stream failed', { error });
+        writeSseEvent(res, {
+          event: 'error',
+          data: buildError(500, 'STREAM_INTERRUPTED', 'The response stream was interrupted'),
+        });
+        res.end();
+        return;
+      }
+      next(error);
+    }
+  }
+);
+
 export default router;
 
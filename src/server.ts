@@ -1,53 +1,93 @@
 import express, { Request, Response, NextFunction } from 'express';
 import chatRouter from './routes/chat';
+import adminRouter from './routes/admin';
+import { requireAuth, requireAdmin } from './middleware/auth';
+import Metrics from './services/Metrics';
+import { createLogger } from './services/Logger';
+import { assignRequestContext } from './middleware/requestContext';
+import { sendError } from './middleware/errors';
+import { getOpenApiSpec } from './openapi/spec';
 import 'dotenv/config';
 
+const log = createLogger('Server');
+
 const app = express();
 const PORT = process.env.PORT || 8080;
 
+// Behind a reverse proxy, TRUST_PROXY makes req.ip the client address (used for rate limits):
+// "true", a hop count, or addresses/subnets such as "loopback"
+const trustProxy = process.env.TRUST_PROXY;
+if (trustProxy) {
+  app.set(
+    'trust proxy',
+    trustProxy === 'true' ? true : /^\d+$/.test(trustProxy) ? parseInt(trustProxy, 10) : trustProxy
+  );
+}
+
 // Middleware
 app.use(express.json());
 
-// Request logging middleware
-app.use((req: Request, _res: Response, next: NextFunction) => {
-  console.log(`[${new Date().toISOString()}] ${req.method} ${req.path}`);
-  next();
-});
+// Request ID, log correlation and request logging (needs the parsed body)
+app.use(assignRequestContext);
 
 // Health check endpoint
 app.get('/health', (_req: Request, res: Response) => {
   res.json({ status: 'ok' });
 });
 
-// API routes
-app.use('/v1/chat', chatRouter);
+// Prometheus scrape endpoint; with METRICS_TOKEN set, scrapers must send it as a bearer token
+app.get('/metrics', (req: Request, res: Response) => {
+  const token = process.env.METRICS_TOKEN;
+  if (token && req.headers.authorization !== `Bearer ${token}`) {
+    res.setHeader('WWW-Authenticate', 'Bearer');
+    sendError(res, 401, 'UNAUTHORIZED', 'Metrics token required');
+    return;
+  }
+
+  res.setHeader('Content-Type', 'text/plain; version=0.0.4; charset=utf-8');
+  res.send(Metrics.render());
+});
+
+// API contract (unauthenticated, so clients can be generated from it)
+app.get('/openapi.json', (_req: Request, res: Response) => {
+  res.json(getOpenApiSpec());
+});
+
+// API routes (authenticated)
+app.use('/v1/chat', requireAuth, chatRouter);
+app.use('/v1/admin', requireAuth, requireAdmin, adminRouter);
 
 // 404 handler
 app.use((_req: Request, res: Response) => {
-  res.status(404).json({
-    error: 'Not Found',
-    message: 'The requested endpoint does not exist',
-  });
+  sendError(res, 404, 'NOT_FOUND', 'The requested endpoint does not exist');
 });
 
 // Error handling middleware
-app.use((err: Error, _req: Request, res: Response, _next: NextFunction) => {
-  console.error('[Error]', err.message);
+app.use((err: Error & { type?: string }, _req: Request, res: Response, _next: NextFunction) => {
+  // Body parser failures are client errors
+  if (err.type === 'entity.parse.failed') {
+    sendError(res, 400, 'INVALID_JSON', 'Request body is not valid JSON');
+    return;
+  }
+  if (err.type === 'entity.too.large') {
+    sendError(res, 413, 'PAYLOAD_TOO_LARGE', 'Request body is too large');
+    return;
+  }
+
+  log.error('Unhandled error', { error: err });
 
   // Don't leak internal error details in production
   const isDev = process.env.NODE_ENV !== 'production';
 
-  res.status(500).json({
-    error: 'Internal Server Error',
-    message: isDev ? err.message : 'An unexpected error occurred',
-  });
+  sendError(res, 500, 'INTERNAL_ERROR', isDev ? err.message : 'An unexpected error occurred');
 });
 
 // Start server
 app.listen(PORT, () => {
-  console.log(`[Server] Mental Health Assistant API running on port ${PORT}`);
-  console.log(`[Server] LLM Provider: ${process.env.LLM_PROVIDER || 'stub'}`);
-  console.log(`[Server] Health check: http://localhost:${PORT}/health`);
+  log.info('Mental Health Assistant API running', {
+    port: PORT,
+    llmProvider: process.env.LLM_PROVIDER || 'stub',
+  });
 });
 
 export default app;
@@ -0,0 +1,146 @@
+import directory from '../data/crisis-resources.json';
+import { CountrySource } from '../types';
+import { DEFAULT_LANGUAGE, getLocale } from '../locales';
+
+type CrisisLine = {
+  name: string;
+  contact: string;
+};
+
+type CountryEntry = {
+  name: string;
+  emergencyNumber: string;
+  crisisLines: CrisisLine[];
+  aliases: string[];
+  timezones: string[];
+};
+
+export type CountryResolution = {
+  countryCode: string;
+  source: CountrySource;
+};
+
+const COUNTRIES: Record<string, CountryEntry> = directory.countries;
+
+// Reverse lookup: IANA timezone → country code
+const TIMEZONE_TO_COUNTRY = new Map<string, string>(
+  Object.entries(COUNTRIES).flatMap(([code, entry]) =>
+    entry.timezones.map((tz): [string, string] => [tz, code])
+  )
+);
+
+/**
+ * Escape a literal string for use inside a RegExp
+ */
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// Phrases placing the user themselves in a country, in every supported language.
+// "I'm in Canada", "ich wohne in Deutschland", "vivo en España", "je suis en France"
+const SELF_LOCATION =
+  "(?:(?:i[’']?m|i am|we[’']?re|we are)" +
+  '(?:\\s+(?:currently|now|still|living|staying|based|located))?\\s+(?:in|at)' +
+  '|(?:i|we)\\s+(?:live|stay)\\s+in|(?:here|back)\\s+in' +
+  '|(?:ich\\s+)?(?:bin|wohne|lebe)\\s+(?:gerade\\s+|jetzt\\s+)?(?:in|im)' +
+  '|(?:estoy|vivo|resido)\\s+en' +
+  "|(?:je\\s+suis|j[’']habite|je\\s+vis)\\s+(?:en|au|aux|à|a))" +
+  '(?:\\s+(?:the|der|die|dem|el|la|los|las|le|les))?';
+
+// A reply that is only a country, e.g. to "Which country are you in?"
+const BARE_PREFIX = '^\\s*(?:(?:in|im|en|au|aux|the)\\s+)?';
+const BARE_SUFFIX = '\\s*[.!]*\\s*$';
+
+// Self-location matchers, longest alias first ("northern ireland" before "ireland").
+// Other mentions ("my sister lives in Canada") say nothing about where the user is.
+const COUNTRY_MENTION_PATTERNS: { code: string; pattern: RegExp }[] = Object.entries(COUNTRIES)
+  .flatMap(([code, entry]) => entry.aliases.map((alias) => ({ code, alias })))
+  .sort((a, b) => b.alias.length - a.alias.length)
+  .map(({ code, alias }) => {
+    const name = escapeRegExp(alias);
+    return {
+      code,
+      pattern: new RegExp(
+        `${BARE_PREFIX}${name}${BARE_SUFFIX}|(^|[^\\p{L}])${SELF_LOCATION}\\s+${name}(?=$|[^\\p{L}])`,
+        'iu'
+      ),
+    };
+  });
+
+class CrisisResourceDirectory {
+  getVersion(): string {
+    return directory.version;
+  }
+
+  /**
+   * Resolve the user's country, most explicit source first:
+   * 1. The user's own location named in the conversation, newest message first
+   *    ("I'm in Canada", or just "Canada")
+   * 2. The region subtag of an explicit locale (e.g. "en-GB")
+   * 3. The client's IANA timezone
+   * Only countries present in the directory are returned.
+   */
+  resolveCountry(ctx: {
+    userTexts: string[];
+    locale?: string;
+    timezone?: string;
+  }): CountryResolution | null {
+    for (const text of ctx.userTexts) {
+      const mentioned = this.findMentionedCountry(text);
+      if (mentioned) {
+        return { countryCode: mentioned, source: 'USER_MENTION' };
+      }
+    }
+
+    if (ctx.locale) {
+      const region = ctx.locale.split(/[-_]/)[1]?.toUpperCase();
+      if (region && COUNTRIES[region]) {
+        return { countryCode: region, source: 'LOCALE' };
+      }
+    }
+
+    if (ctx.timezone) {
+      const fromTimezone = TIMEZONE_TO_COUNTRY.get(ctx.timezone);
+      if (fromTimezone) {
+        return { countryCode: fromTimezone, source: 'TIMEZONE' };
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Render the resource sentence appended to crisis responses.
+   * Falls back to generic guidance when the country is unknown.
+   */
+  formatResources(countryCode: string | null, language: string = DEFAULT_LANGUAGE): string {
+    const templates = getLocale(language).templates;
+    const entry = countryCode ? COUNTRIES[countryCode] : undefined;
+
+    if (!entry) {
+      const lines = directory.fallback.crisisLines
+        .map((line) => `${line.name} (${line.contact})`)
+        .join('; ');
+      return templates.crisisResourcesUnknown.replace('{lines}', lines);
+    }
+
+    const lines = entry.crisisLines
+      .map((line) => `${line.name}: ${line.contact}`)
+      .join('; ');
+    return templates.crisisResourcesKnown
+      .replace('{country}', entry.name)
+      .replace('{emergency}', entry.emergencyNumber)
+      .replace('{lines}', lines);
+  }
+
+  private findMentionedCountry(text: string): string | null {
+    for (const { code, pattern } of COUNTRY_MENTION_PATTERNS) {
+      if (pattern.test(text)) {
+        return code;
+      }
+    }
+    return null;
+  }
+}
+
+export default new CrisisResourceDirectory();
@@ -1,212 +1,114 @@
-import { InputAnalysis, RiskLevel, Mode } from '../types';
+import { InputAnalysis, RiskLevel, Mode, MentionScope, RiskLexicon, LanguageDetection } from '../types';
 import SemanticRiskClassifier from './SemanticRiskClassifier';
+import MentionScopeAnalyzer from './MentionScopeAnalyzer';
+import LanguageDetector from './LanguageDetector';
+import RulePackRegistry, { RulePack } from './RulePackRegistry';
+import { DEFAULT_LANGUAGE } from '../locales';
 
 // =============================================================================
 // CRISIS DETECTION - Multi-layered approach
 // Layer 1: Explicit keywords (highest confidence)
 // Layer 2: Regex patterns (catch variations)
+//   Both are scoped: negated / past / hypothetical mentions do not trigger CRISIS
+//   on their own, but any affirmed mention or added soft signal still does
 // Layer 3: Soft signals with scoring (implicit indicators)
+//
+// Lexicons and thresholds come from the active rule pack (RulePackRegistry),
+// one lexicon per locale. The detected language's lexicon is
+// always combined with English to catch code-switching; unsupported languages
+// are checked against every lexicon and never drop below SUPPORTIVE. When the
+// detection is unsure, the explicit keywords and patterns of every locale are
+// checked as well.
+// Mention scoping is English-only, so other languages treat every mention as
+// affirmed.
 // =============================================================================
 
-// Layer 1: Explicit crisis keywords - immediate CRISIS mode
-const EXPLICIT_CRISIS_KEYWORDS = [
-  // Direct suicidal ideation
-  'suicide',
-  'suicidal',
-  'kill myself',
-  'end my life',
-  'take my life',
-  'want to die',
-  'wanna die',
-  'ready to die',
-  'planning to die',
-  // Self-harm
-  'self-harm',
-  'self harm',
-  'hurt myself',
-  'cutting myself',
-  'harming myself',
-  // Hopelessness - explicit
-  'no reason to live',
-  'better off dead',
-  'rather be dead',
-  'wish i was dead',
-  'wish i were dead',
-  // Intent expressions
-  'end it all',
-  'ending it all',
-  'not worth living',
-  'can\'t go on',
-  'cannot go on',
-  // Methods (be careful - not too specific)
-  'overdose',
-  'jump off',
-  'hang myself',
-];
-
-// Layer 2: Regex patterns - catch variations and phrases
-const CRISIS_PATTERNS: RegExp[] = [
-  // "want/wanna/gonna to die/end it/disappear"
-  /\b(want|wanna|gonna|going|ready)\s+(to\s+)?(die|end\s+it|disappear|give\s+up\s+on\s+life)/i,
-  // "kill/hurt/harm myself/me"
-  /\b(kill|hurt|harm|cut|injure)\s+(myself|me|my\s+self)/i,
-  // "don't want to live/be here/exist/wake up"
-  /\b(don'?t|do\s+not|dont)\s+want\s+to\s+(live|be\s+here|exist|wake\s+up|be\s+alive)/i,
-  // "better off/rather be dead/gone/not here"
-  /\b(better\s+off|rather\s+be)\s+(dead|gone|not\s+here)/i,
-  // "no reason/point/purpose to live/in living"
-  /\b(no|without|lost)\s+(reason|point|purpose|will)\s+(to\s+live|in\s+living|to\s+go\s+on|anymore)/i,
-  // "can't/cannot go on/do this/take it/handle this anymore"
-  /\bcan'?t\s+(go\s+on|do\s+this|take\s+it|handle|continue|keep\s+going)(\s+anymore)?/i,
-  // "end/ending my life/it all/everything"
-  /\b(end|ending|finish)\s+(my\s+life|it\s+all|everything|this)/i,
-  // "tired/sick of living/life" (serious - CRISIS)
-  // Note: "tired of everything" moved to soft signals (less specific)
-  /\b(tired|sick|done)\s+(of|with)\s+(living|life)/i,
-  // "no one would care/miss me/notice"
-  /\bno\s+one\s+(would|will|gonna)\s+(care|miss|notice)/i,
-  // "world/everyone better without me"
-  /\b(world|everyone|family|they).*(better|easier)\s+(off\s+)?without\s+me/i,
-  // "want to disappear/vanish/not exist"
-  /\bwant\s+to\s+(disappear|vanish|not\s+exist|cease\s+to\s+exist)/i,
-];
-
-// Layer 3: Soft crisis signals - score-based (implicit indicators)
-// These alone might not indicate crisis, but combined they raise concern
-const SOFT_CRISIS_SIGNALS: { pattern: string | RegExp; weight: number }[] = [
-  // Emotional numbness
-  { pattern: 'feel dead', weight: 4 },
-  { pattern: 'dead inside', weight: 4 },
-  { pattern: 'feel nothing', weight: 3 },
-  { pattern: 'feel empty', weight: 3 },
-  { pattern: 'feel numb', weight: 3 },
-  { pattern: 'completely numb', weight: 4 },
-  // Hopelessness indicators
-  { pattern: 'no hope', weight: 4 },
-  { pattern: 'lost hope', weight: 4 },
-  { pattern: 'hopeless', weight: 3 },
-  { pattern: 'what\'s the point', weight: 4 },
-  { pattern: 'what is the point', weight: 4 },
-  { pattern: 'whats the point', weight: 4 },
-  { pattern: 'no point', weight: 3 },
-  { pattern: 'pointless', weight: 2 },
-  { pattern: 'why bother', weight: 3 },
-  { pattern: 'why try', weight: 3 },
-  // Giving up
-  { pattern: 'give up', weight: 3 },
-  { pattern: 'giving up', weight: 3 },
-  { pattern: 'can\'t do this anymore', weight: 4 },
-  { pattern: 'too much to handle', weight: 3 },
-  { pattern: 'can\'t take it', weight: 4 },
-  // Isolation
-  { pattern: 'all alone', weight: 3 },
-  { pattern: 'no one cares', weight: 4 },
-  { pattern: 'nobody cares', weight: 4 },
-  { pattern: 'no one understands', weight: 2 },
-  // Burden
-  { pattern: 'burden', weight: 3 },
-  { pattern: 'i\'m a burden', weight: 5 },
-  { pattern: 'burden to everyone', weight: 5 },
-  // Escape
-  { pattern: 'escape', weight: 2 },
-  { pattern: 'want out', weight: 3 },
-  { pattern: 'way out', weight: 3 },
-  { pattern: 'only way out', weight: 5 },
-  // Finality
-  { pattern: 'goodbye', weight: 2 },
-  { pattern: 'final goodbye', weight: 5 },
-  { pattern: 'last message', weight: 4 },
-  { pattern: 'won\'t be here', weight: 4 },
-  // Exhaustion (less specific than "tired of life" - moved from CRISIS patterns)
-  { pattern: /\b(tired|sick|done)\s+(of|with)\s+(everything|all\s+of\s+this)/i, weight: 3 },
-  { pattern: 'so tired of everything', weight: 3 },
-  { pattern: 'sick of everything', weight: 3 },
-  { pattern: 'done with everything', weight: 3 },
-];
-
-// Threshold for soft signals to trigger CRISIS mode
-const SOFT_SIGNAL_CRISIS_THRESHOLD = 8;
-const SOFT_SIGNAL_SUPPORTIVE_THRESHOLD = 4;
-
-// Mental health keywords - SUPPORTIVE mode
-const MENTAL_HEALTH_KEYWORDS = [
-  'anxious',
-  'anxiety',
-  'depressed',
-  'depression',
-  'stressed',
-  'overwhelmed',
-  'lonely',
-  'hopeless',
-  'sad',
-  'grief',
-  'grieving',
-  'panic',
-  'panic attack',
-  'worried',
-  'struggling',
-  'mental health',
-  'therapy',
-  'therapist',
-  'counseling',
-  'counselor',
-  'burnout',
-  'burnt out',
-  'exhausted',
-  'breaking down',
-  'falling apart',
-  'crying',
-  'can\'t sleep',
-  'insomnia',
-  'nightmares',
-  'trauma',
-  'ptsd',
-  'flashback',
-  'triggered',
-  'self-esteem',
-  'hate myself',
-  'worthless',
-  'failure',
-  'ashamed',
-  'guilt',
-  'regret',
-];
+// Safety flags for qualified (non-affirmed) crisis mentions
+const MENTION_SCOPE_FLAGS: Record<Exclude<MentionScope, 'AFFIRMED'>, string> = {
+  NEGATED: 'NEGATED_CRISIS_MENTION',
+  PAST: 'PAST_CRISIS_MENTION',
+  HYPOTHETICAL: 'HYPOTHETICAL_CRISIS_MENTION',
+};
+
+// Below this detector confidence, every locale's explicit crisis rules are checked
+const LOW_LANGUAGE_CONFIDENCE = 0.5;
+
+type CrisisMention = {
+  layer: 'KEYWORD' | 'PATTERN';
+  scope: MentionScope;
+};
 
 class InputAnalyzer {
-  async analyze(text: string): Promise<InputAnalysis> {
-    const lowerText = text.toLowerCase();
+  async analyze(text: string, localeHint?: string): Promise<InputAnalysis> {
+    // Read the pack once so a concurrent hot reload cannot mix two rule sets
+    const pack = RulePackRegistry.getActive();
+    const language = LanguageDetector.detect(text, localeHint);
+    const analysis: InputAnalysis = {
+      ...this.analyzeRules(text.toLowerCase(), language, pack),
+      language,
+      rulePackVersion: `${pack.id}@${pack.version}`,
+    };
 
-    // Layer 1: Check explicit crisis keywords (highest priority)
-    for (const keyword of EXPLICIT_CRISIS_KEYWORDS) {
-      if (lowerText.includes(keyword)) {
-        return {
-          intent: 'MENTAL_HEALTH',
-          riskLevel: 'HIGH',
-          safetyFlags: ['CRISIS_KEYWORD_MATCH'],
-          suggestedMode: 'CRISIS',
-          modeReason: 'EXPLICIT_CRISIS_KEYWORD',
-        };
-      }
+    // Unsupported language: rules may have missed everything, never answer as NORMAL
+    if (!language.supported && analysis.suggestedMode === 'NORMAL') {
+      return {
+        ...analysis,
+        intent: 'UNKNOWN',
+        riskLevel: 'MEDIUM',
+        safetyFlags: [...analysis.safetyFlags, 'UNSUPPORTED_LANGUAGE'],
+        suggestedMode: 'SUPPORTIVE',
+        modeReason: 'UNSUPPORTED_LANGUAGE',
+      };
     }
 
-    // Layer 2: Check crisis patterns (regex)
-    for (const pattern of CRISIS_PATTERNS) {
-      if (pattern.test(lowerText)) {
-        return {
-          intent: 'MENTAL_HEALTH',
-          riskLevel: 'HIGH',
-          safetyFlags: ['CRISIS_PATTERN_MATCH'],
-          suggestedMode: 'CRISIS',
-          modeReason: 'CRISIS_PATTERN_MATCH',
-        };
-      }
+    return analysis;
+  }
+
+  /**
+   * Rule layers over the lexicons selected for the detected language
+   */
+  private analyzeRules(
+    lowerText: string,
+    language: LanguageDetection,
+    pack: RulePack
+  ): InputAnalysis {
+    const lexicon = this.getLexicon(language, pack);
+    const { softSignalCrisis, softSignalSupportive } = pack.thresholds;
+
+    // Layers 1-2: Find every explicit crisis mention and its scope
+    const mentions = this.findCrisisMentions(
+      lowerText,
+      lexicon,
+      language.code === DEFAULT_LANGUAGE
+    );
+
+    // Layer 1: Affirmed explicit crisis keyword (highest priority)
+    if (mentions.some((m) => m.layer === 'KEYWORD' && m.scope === 'AFFIRMED')) {
+      return {
+        intent: 'MENTAL_HEALTH',
+        riskLevel: 'HIGH',
+        safetyFlags: ['CRISIS_KEYWORD_MATCH'],
+        suggestedMode: 'CRISIS',
+        modeReason: 'EXPLICIT_CRISIS_KEYWORD',
+      };
+    }
+
+    // Layer 2: Affirmed crisis pattern (regex)
+    if (mentions.some((m) => m.layer === 'PATTERN' && m.scope === 'AFFIRMED')) {
+      return {
+        intent: 'MENTAL_HEALTH',
+        riskLevel: 'HIGH',
+        safetyFlags: ['CRISIS_PATTERN_MATCH'],
+        suggestedMode: 'CRISIS',
+        modeReason: 'CRISIS_PATTERN_MATCH',
+      };
     }
 
     // Layer 3: Calculate soft signal score
     let softSignalScore = 0;
     const matchedSignals: string[] = [];
 
-    for (const signal of SOFT_CRISIS_SIGNALS) {
+    for (const signal of lexicon.softCrisisSignals) {
       const matches =
         typeof signal.pattern === 'string'
           ? lowerText.includes(signal.pattern)
@@ -222,30 +124,62 @@ class InputAnalyzer {
       }
     }
 
+    // Qualified mentions only (negated / past / hypothetical)
+    if (mentions.length > 0) {
+      const scopeFlags = [
+        ...new Set(
+          mentions.map((m) => MENTION_SCOPE_FLAGS[m.scope as Exclude<MentionScope, 'AFFIRMED'>])
+        ),
+      ];
+
+      // Mixed signal: a qualified mention plus elevated soft signals still escalates
+      if (softSignalScore >= softSignalSupportive) {
+        return {
+          intent: 'MENTAL_HEALTH',
+          riskLevel: 'HIGH',
+          safetyFlags: [...scopeFlags, 'SOFT_SIGNALS_ELEVATED', ...matchedSignals.slice(0, 3)],
+          suggestedMode: 'CRISIS',
+          modeReason: 'QUALIFIED_CRISIS_MENTION_WITH_SOFT_SIGNALS',
+          softSignalScore,
+        };
+      }
+
+      return {
+        intent: 'MENTAL_HEALTH',
+        riskLevel: 'MEDIUM',
+        safetyFlags: scopeFlags,
+        suggestedMode: 'SUPPORTIVE',
+        modeReason: 'QUALIFIED_CRISIS_MENTION',
+        softSignalScore,
+      };
+    }
+
     // High soft signal score → CRISIS
-    if (softSignalScore >= SOFT_SIGNAL_CRISIS_THRESHOLD) {
+    if (softSignalScore >= softSignalCrisis) {
       return {
         intent: 'MENTAL_HEALTH',
         riskLevel: 'HIGH',
         safetyFlags: ['SOFT_SIGNALS_ELEVATED', ...matchedSignals.slice(0, 3)],
         suggestedMode: 'CRISIS',
         modeReason: 'SOFT_SIGNALS_CRISIS_THRESHOLD',
+        softSignalScore,
       };
     }
 
     // Medium soft signal score → SUPPORTIVE
-    if (softSignalScore >= SOFT_SIGNAL_SUPPORTIVE_THRESHOLD) {
+    if (softSignalScore >= softSignalSupportive) {
       return {
         intent: 'MENTAL_HEALTH',
         riskLevel: 'MEDIUM',
         safetyFlags: matchedSignals.slice(0, 3),
         suggestedMode: 'SUPPORTIVE',
         modeReason: 'SOFT_SIGNALS_ELEVATED',
+        softSignalScore,
       };
     }
 
     // Layer 4: Check mental health keywords → SUPPORTIVE
-    for (const keyword of MENTAL_HEALTH_KEYWORDS) {
+    for (const keyword of lexicon.mentalHealthKeywords) {
       if (lowerText.includes(keyword)) {
         return {
           intent: 'MENTAL_HEALTH',
@@ -253,6 +187,7 @@ class InputAnalyzer {
           safetyFlags: [],
           suggestedMode: 'SUPPORTIVE',
           modeReason: 'MENTAL_HEALTH_KEYWORD',
+          softSignalScore,
         };
       }
     }
@@ -264,6 +199,7 @@ class InputAnalyzer {
       safetyFlags: [],
       suggestedMode: 'NORMAL',
       modeReason: 'DEFAULT',
+      softSignalScore,
     };
   }
 
@@ -271,9 +207,9 @@ class InputAnalyzer {
    * Enhanced analysis that runs semantic classifier for LOW/MEDIUM risk cases
    * Semantic classifier can escalate risk but never downgrade below rule-based minimum
    */
-  async analyzeWithSemantic(text: string): Promise<InputAnalysis> {
+  async analyzeWithSemantic(text: string, localeHint?: string): Promise<InputAnalysis> {
     // Step 1: Run rule-based analysis first
-    const ruleAnalysis = await this.analyze(text);
+    const ruleAnalysis = await this.analyze(text, localeHint);
 
     // Step 2: If rule-based returns HIGH or CRISIS, skip semantic (already at max)
     if (ruleAnalysis.riskLevel === 'HIGH' || ruleAnalysis.suggestedMode === 'CRISIS') {
@@ -321,6 +257,9 @@ class InputAnalyzer {
       safetyFlags: combinedFlags,
       suggestedMode: finalMode,
       modeReason: finalModeReason,
+      softSignalScore: ruleAnalysis.softSignalScore,
+      language: ruleAnalysis.language,
+      rulePackVersion: ruleAnalysis.rulePackVersion,
       rationale: semanticResult.rationale,
       semanticUsed: true,
       semanticRiskLevel: semanticResult.riskLevel,
@@ -332,6 +271,69 @@ class InputAnalyzer {
     };
   }
 
+  /**
+   * Merge the lexicons to check: detected language + English, or all when unsupported
+   */
+  private getLexicon(language: LanguageDetection, pack: RulePack): RiskLexicon {
+    const allLexicons = Object.values(pack.locales).map((rules) => rules.lexicon);
+    const lexicons = language.supported
+      ? [
+          ...new Set([
+            RulePackRegistry.getLocaleRules(pack, language.code).lexicon,
+            RulePackRegistry.getLocaleRules(pack, DEFAULT_LANGUAGE).lexicon,
+          ]),
+        ]
+      : allLexicons;
+    // Short messages are often misdetected, so an unsure detection also gets
+    // every locale's explicit crisis rules ("me quiero matar" reads as English)
+    const explicitLexicons =
+      language.confidence < LOW_LANGUAGE_CONFIDENCE ? allLexicons : lexicons;
+
+    return {
+      explicitCrisisKeywords: explicitLexicons.flatMap((l) => l.explicitCrisisKeywords),
+      crisisPatterns: explicitLexicons.flatMap((l) => l.crisisPatterns),
+      softCrisisSignals: lexicons.flatMap((l) => l.softCrisisSignals),
+      mentalHealthKeywords: lexicons.flatMap((l) => l.mentalHealthKeywords),
+    };
+  }
+
+  /**
+   * Find all explicit crisis keyword and pattern matches with their scope
+   */
+  private findCrisisMentions(
+    lowerText: string,
+    lexicon: RiskLexicon,
+    scoped: boolean
+  ): CrisisMention[] {
+    const mentions: CrisisMention[] = [];
+    const scopeOf = (start: number, end: number): MentionScope =>
+      scoped ? MentionScopeAnalyzer.classify(lowerText, start, end) : 'AFFIRMED';
+
+    for (const keyword of new Set(lexicon.explicitCrisisKeywords)) {
+      let index = lowerText.indexOf(keyword);
+      while (index !== -1) {
+        mentions.push({
+          layer: 'KEYWORD',
+          scope: scopeOf(index, index + keyword.length),
+        });
+        index = lowerText.indexOf(keyword, index + keyword.length);
+      }
+    }
+
+    for (const pattern of lexicon.crisisPatterns) {
+      const globalPattern = new RegExp(pattern.source, pattern.flags.replace('g', '') + 'g');
+      for (const match of lowerText.matchAll(globalPattern)) {
+        const index = match.index ?? 0;
+        mentions.push({
+          layer: 'PATTERN',
+          scope: scopeOf(index, index + match[0].length),
+        });
+      }
+    }
+
+    return mentions;
+  }
+
   /**
    * Convert risk level to numeric for comparison
    */
@@ -0,0 +1,71 @@
+import { LanguageDetection } from '../types';
+import { DEFAULT_LANGUAGE, getAllLocales, isSupportedLanguage } from '../locales';
+
+// Stopwords for common languages we recognise but do not support yet.
+// Detecting them lets the analyzer fall back to conservative behavior instead of
+// silently treating the message as English.
+const UNSUPPORTED_LANGUAGE_STOPWORDS: Record<string, string[]> = {
+  it: ['io', 'sono', 'non', 'che', 'il', 'gli', 'della', 'sto', 'molto', 'perché', 'ciao', 'grazie', 'voglio', 'anche', 'mi'],
+  pt: ['eu', 'não', 'estou', 'sou', 'muito', 'você', 'obrigado', 'obrigada', 'olá', 'com', 'mas', 'meu', 'minha', 'está', 'quero'],
+  nl: ['ik', 'niet', 'het', 'een', 'ben', 'voel', 'mij', 'mijn', 'jij', 'hallo', 'dank', 'maar', 'ook', 'wat', 'heel'],
+};
+
+// Distinctive characters count as this many stopword hits
+const DISTINCTIVE_CHAR_WEIGHT = 2;
+
+// Share of letters outside the Latin script above which the message is treated as non-Latin
+const NON_LATIN_RATIO_THRESHOLD = 0.5;
+
+class LanguageDetector {
+  /**
+   * Detect the message language from stopword frequency and distinctive characters.
+   * The optional locale hint (e.g. "de-AT") breaks ties and covers messages without
+   * any recognisable words ("ok", "hmm").
+   */
+  detect(text: string, localeHint?: string): LanguageDetection {
+    const lowerText = text.toLowerCase();
+    const hint = localeHint?.split(/[-_]/)[0]?.toLowerCase();
+
+    // Non-Latin scripts are outside every supported lexicon
+    const letters = lowerText.match(/\p{L}/gu) || [];
+    const nonLatin = letters.filter((c) => !/\p{Script=Latin}/u.test(c)).length;
+    if (letters.length > 0 && nonLatin / letters.length > NON_LATIN_RATIO_THRESHOLD) {
+      return { code: 'und', supported: false, confidence: 0 };
+    }
+
+    const tokens = lowerText.match(/[\p{L}']+/gu) || [];
+
+    // Score every known language
+    const scores: { code: string; score: number }[] = [];
+
+    for (const locale of getAllLocales()) {
+      const stopwords = new Set(locale.stopwords);
+      let score = tokens.filter((t) => stopwords.has(t)).length;
+      if (locale.distinctiveChars?.test(lowerText)) {
+        score += DISTINCTIVE_CHAR_WEIGHT;
+      }
+      scores.push({ code: locale.code, score });
+    }
+
+    for (const [code, words] of Object.entries(UNSUPPORTED_LANGUAGE_STOPWORDS)) {
+      const stopwords = new Set(words);
+      scores.push({ code, score: tokens.filter((t) => stopwords.has(t)).length });
+    }
+
+    const best = Math.max(...scores.map((s) => s.score));
+
+    // Nothing recognisable: trust the hint, else assume the default language
+    if (best === 0) {
+      const code = hint && isSupportedLanguage(hint) ? hint : DEFAULT_LANGUAGE;
+      return { code, supported: true, confidence: 0 };
+    }
+
+    const leaders = scores.filter((s) => s.score === best).map((s) => s.code);
+    const code = hint && leaders.includes(hint) ? hint : leaders[0];
+    const confidence = Math.round(Math.min(1, best / Math.max(tokens.length, 1)) * 100) / 100;
+
+    return { code, supported: isSupportedLanguage(code), confidence };
+  }
+}
+
+export default new LanguageDetector();
@@ -0,0 +1,153 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { redactPii } from './PiiRedactor';
+
+// =============================================================================
+// LOGGER - Structured JSON logs with request correlation and redaction
+// Every line is one JSON object: time, level, component, requestId (when
+// logged while handling a request), msg and fields. The request context travels
+// with async calls (AsyncLocalStorage), so code deep in the pipeline logs with
+// the request's ID without it being passed around.
+// Redaction before output:
+// - the user message of the current request (and its sentences) → [USER_CONTENT]
+// - fields named like message content (content, text, prompt, ...) → [REDACTED]
+// - e-mail addresses, phone and other long numbers, URLs, IPs (PiiRedactor)
+// =============================================================================
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+export type LogFields = Record<string, unknown>;
+
+export type Logger = {
+  debug(msg: string, fields?: LogFields): void;
+  info(msg: string, fields?: LogFields): void;
+  warn(msg: string, fields?: LogFields): void;
+  error(msg: string, fields?: LogFields): void;
+};
+
+type RequestContext = {
+  requestId: string;
+  // Texts that must never be logged (the user's message)
+  sensitive: string[];
+};
+
+const LEVEL_ORDER: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40 };
+
+// Fields that carry message content by name are never logged
+const CONTENT_FIELDS = new Set([
+  'content',
+  'text',
+  'message',
+  'usermessage',
+  'assistantmessage',
+  'prompt',
+  'body',
+  'messages',
+]);
+
+// Shorter texts are too likely to match unrelated log text
+const MIN_SENSITIVE_LENGTH = 6;
+const MIN_SENSITIVE_FRAGMENT_LENGTH = 12;
+
+const MAX_STRING_LENGTH = 1000;
+const MAX_DEPTH = 4;
+
+const requestContext = new AsyncLocalStorage<RequestContext>();
+
+// Environment configuration - read lazily to allow dotenv to load first
+function getLogLevel(): LogLevel {
+  const level = process.env.LOG_LEVEL as LogLevel | undefined;
+  return level && level in LEVEL_ORDER ? level : 'info';
+}
+
+/**
+ * Run fn (and every async call it makes) in the context of one request
+ */
+export function runWithRequestContext<T>(requestId: string, fn: () => T): T {
+  return requestContext.run({ requestId, sensitive: [] }, fn);
+}
+
+export function getRequestId(): string | undefined {
+  return requestContext.getStore()?.requestId;
+}
+
+/**
+ * Register text of the current request that must be redacted from every log line
+ */
+export function markSensitive(text: string): void {
+  const context = requestContext.getStore();
+  if (!context || text.trim().length < MIN_SENSITIVE_LENGTH) return;
+
+  const fragments = text
+    .split(/[\n.!?;]+/)
+    .map((fragment) => fragment.trim())
+    .filter((fragment) => fragment.length >= MIN_SENSITIVE_FRAGMENT_LENGTH);
+
+  // Longest first, so a whole message is replaced before its parts
+  context.sensitive = [...new Set([...context.sensitive, text.trim(), ...fragments])].sort(
+    (a, b) => b.length - a.length
+  );
+}
+
+function redactString(value: string, sensitive: string[]): string {
+  let redacted = value;
+  for (const text of sensitive) {
+    redacted = redacted.split(text).join('[USER_CONTENT]');
+  }
+  redacted = redactPii(redacted);
+  return redacted.length > MAX_STRING_LENGTH
+    ? `${redacted.slice(0, MAX_STRING_LENGTH)}…`
+    : redacted;
+}
+
+function redactValue(value: unknown, sensitive: string[], depth: number): unknown {
+  if (typeof value === 'string') return redactString(value, sensitive);
+  if (value instanceof Error) return redactString(value.message, sensitive);
+  if (value === null || typeof value !== 'object') return value;
+  if (depth >= MAX_DEPTH) return '[Object]';
+
+  if (Array.isArray(value)) {
+    return value.map((item) => redactValue(item, sensitive, depth + 1));
+  }
+  return Object.fromEntries(
+    Object.entries(value).map(([key, item]) => [
+      key,
+      CONTENT_FIELDS.has(key.toLowerCase()) ? '[REDACTED]' : redactValue(item, sensitive, depth + 1),
+    ])
+  );
+}
+
+function write(level: LogLevel, component: string, msg: string, fields: LogFields = {}): void {
+  if (LEVEL_ORDER[level] < LEVEL_ORDER[getLogLevel()]) return;
+
+  const context = requestContext.getStore();
+  const sensitive = context?.sensitive ?? [];
+  // Request IDs are validated when assigned and would be mangled by redaction
+  const { requestId = context?.requestId, ...rest } = fields;
+  const entry = {
+    time: new Date().toISOString(),
+    level,
+    component,
+    requestId,
+    msg: redactString(msg, sensitive),
+    ...(redactValue(rest, sensitive, 0) as LogFields),
+  };
+
+  const line = `${JSON.stringify(entry)}\n`;
+  if (LEVEL_ORDER[level] >= LEVEL_ORDER.warn) {
+    process.stderr.write(line);
+  } else {
+    process.stdout.write(line);
+  }
+}
+
+/**
+ * Logger for one component (the "[Tag]" of a log line)
+ */
+export function createLogger(component: string): Logger {
+  return {
+    debug: (msg, fields) => write('debug', component, msg, fields),
+    info: (msg, fields) => write('info', component, msg, fields),
+    warn: (msg, fields) => write('warn', component, msg, fields),
+    error: (msg, fields) => write('error', component, msg, fields),
+  };
+}
@@ -0,0 +1,260 @@
+import { MentionScope } from '../types';
+
+// =============================================================================
+// MENTION SCOPE - Negation and temporal scope of explicit crisis mentions
+// A mention is only qualified (NEGATED / PAST / HYPOTHETICAL) when a cue clearly
+// governs it within the same clause. Anything unclear stays AFFIRMED.
+// isAsserted (post-crisis phrases) also knows each locale's negative pronouns and
+// trailing negations.
+// =============================================================================
+
+// Clause boundaries: sentence punctuation, commas and contrastive conjunctions.
+// "I had suicidal thoughts before, but not now" → two clauses
+const CLAUSE_BOUNDARY = /[.!?;,\n]+|\b(?:but|however|although|though|except|yet)\b/gi;
+
+// How many words before a mention a governing cue may appear
+const SCOPE_WINDOW_WORDS = 4;
+
+// Negation cues (words ending in n't are also treated as negation)
+const NEGATION_WORDS = new Set([
+  'not',
+  'never',
+  'no',
+  'nor',
+  'dont',
+  'didnt',
+  'doesnt',
+  'wont',
+  'wouldnt',
+  'isnt',
+  'arent',
+  'wasnt',
+  'havent',
+  'hasnt',
+]);
+
+// Verbal past-tense cues that must directly govern the mention
+const PAST_VERB_CUES = new Set(['had', 'used']);
+
+// Words allowed between a cue and the mention it governs.
+// "I don't want to kill myself" → don't [want to] kill myself
+const BRIDGE_WORDS = new Set([
+  'want',
+  'wanna',
+  'to',
+  'going',
+  'gonna',
+  'be',
+  'been',
+  'being',
+  'feel',
+  'feeling',
+  'felt',
+  'really',
+  'actually',
+  'ever',
+  'thinking',
+  'thought',
+  'thoughts',
+  'of',
+  'have',
+  'having',
+  'any',
+  'a',
+  'the',
+  'at',
+  'all',
+]);
+
+// Extra words allowed between a negation and a stated phrase it governs (hedges).
+// "I'm not sure I'm safe" → not [sure i'm] safe
+const ASSERTION_BRIDGE_WORDS = new Set([
+  ...BRIDGE_WORDS,
+  'sure',
+  'certain',
+  'know',
+  'think',
+  'if',
+  'whether',
+  'that',
+  'i',
+  'im',
+  'am',
+]);
+
+// Negative pronouns that negate a whole clause wherever they stand, per locale.
+// French "personne" also means "person", so it only counts together with "ne".
+// "nobody has reached out to me", "ich habe mit niemandem gesprochen" → not asserted
+const CLAUSE_NEGATION_PATTERNS: Record<string, string> = {
+  en: '\\b(nobody|no[\\s-]?one)\\b',
+  de: '\\bniemand(en|em)?\\b',
+  es: '\\bnadie\\b',
+  fr: "\\bpersonne\\s+ne\\b|\\b(ne|n['’]\\S*)\\s+(\\S+\\s+){0,3}personne\\b",
+};
+
+const CLAUSE_NEGATION = new RegExp(Object.values(CLAUSE_NEGATION_PATTERNS).join('|'), 'i');
+
+// Trailing negations that take back the clause before them, per locale.
+// "ich bin in sicherheit, glaube ich nicht", "i'm safe, i don't think so" → not asserted
+const TRAILING_NEGATION_PATTERNS: Record<string, string> = {
+  en: "i\\s+don['’]?t\\s+think\\s+so|i\\s+(guess|think)\\s+not|not\\s+really|or\\s+not",
+  de: '(glaube|denke)\\s+ich\\s+nicht|eher\\s+nicht|nicht\\s+wirklich',
+  es: 'creo\\s+que\\s+no|no\\s+creo|en\\s+realidad\\s+no',
+  fr: 'je\\s+(ne\\s+)?(crois|pense)\\s+pas|pas\\s+vraiment',
+};
+
+const TRAILING_NEGATION = new RegExp(
+  `^[\\s.,;:!-]*(${Object.values(TRAILING_NEGATION_PATTERNS).join('|')})\\b`,
+  'i'
+);
+
+// Temporal adverbials that place the whole clause in the past
+const PAST_ADVERBIALS =
+  /\b(before|in\s+the\s+past|(years?|months?|weeks?|a\s+while|long\s+time)\s+ago|back\s+then|back\s+when|previously|when\s+i\s+was\s+(younger|a\s+(kid|child|teen|teenager))|as\s+a\s+(kid|child|teen|teenager)|growing\s+up|last\s+year)\b/i;
+
+// Explicit hypothetical / fictional frames
+const HYPOTHETICAL_CUES =
+  /\b(hypothetically|what\s+(should|would|do)\s+(i|you|someone)\s+do\s+if|in\s+(a|the|my)\s+(movie|book|story|novel|show|series|game|song|essay)|(a|the|my)\s+character|for\s+(a|my)\s+(school|class|college|university|uni)\s+(project|essay|assignment|paper)|for\s+research)\b/i;
+
+// Present, recent or intent markers - override PAST and HYPOTHETICAL scope
+const PRESENT_OR_INTENT_MARKERS =
+  /\b(now|today|tonight|right\s+now|currently|still|again|lately|recently|these\s+days|this\s+(week|morning|evening)|last\s+night|yesterday|going\s+to|gonna|will|plan|planning|can'?t\s+stop)\b|'ll\b/i;
+
+// Continuation markers anywhere in the message - the past behaviour may be ongoing.
+// "I used to self harm, but I still do sometimes" → AFFIRMED
+const CONTINUATION_MARKERS =
+  /\b(still|again|keep|keeps|kept|since\s+then|(come|comes|coming|came)\s+back)\b/i;
+
+// Contrastive follow-up with a modal or intent word, anywhere after the mention in the
+// same sentence - overrides negation and other qualifying cues.
+// "I don't want to kill myself but I might" → AFFIRMED
+const CONTRASTIVE_INTENT =
+  /^[^.!?\n]*?\b(but|unless)\b[^.!?\n]*?(\b(might|may|could|will|maybe|gonna|going\s+to)\b|'ll\b)/i;
+
+/**
+ * Normalize a word for cue lookup ("Don't" → "dont")
+ */
+function normalizeWord(word: string): string {
+  return word.toLowerCase().replace(/[’']/g, '');
+}
+
+function isNegationWord(word: string): boolean {
+  return NEGATION_WORDS.has(normalizeWord(word)) || /n[’']t$/i.test(word);
+}
+
+class MentionScopeAnalyzer {
+  /**
+   * Determine the scope of a crisis mention found at [start, end) in text
+   */
+  classify(text: string, start: number, end: number): MentionScope {
+    const { clauseStart, clauseEnd } = this.findClause(text, start, end);
+    const clause = text.slice(clauseStart, clauseEnd);
+    const prefixWords = text
+      .slice(clauseStart, start)
+      .split(/\s+/)
+      .filter((w) => w.length > 0)
+      .slice(-SCOPE_WINDOW_WORDS);
+
+    // A contrastive clause with intent after the mention keeps it affirmed
+    if (CONTRASTIVE_INTENT.test(text.slice(end))) {
+      return 'AFFIRMED';
+    }
+
+    // Negation: a negation cue governs the mention through bridge words only.
+    // A second negation earlier in the clause cancels it out.
+    // "I see no reason not to kill myself", "not a day goes by that I don't want to die" → AFFIRMED
+    if (this.isGovernedBy(prefixWords, isNegationWord)) {
+      const negations = text.slice(clauseStart, start).split(/\s+/).filter(isNegationWord);
+      return negations.length > 1 ? 'AFFIRMED' : 'NEGATED';
+    }
+
+    // Present, recent or intent markers keep the mention affirmed
+    if (PRESENT_OR_INTENT_MARKERS.test(clause) || CONTINUATION_MARKERS.test(text)) {
+      return 'AFFIRMED';
+    }
+
+    const isPastVerb = (word: string) => PAST_VERB_CUES.has(normalizeWord(word));
+
+    if (this.isGovernedBy(prefixWords, isPastVerb) || PAST_ADVERBIALS.test(clause)) {
+      return 'PAST';
+    }
+
+    if (HYPOTHETICAL_CUES.test(clause)) {
+      return 'HYPOTHETICAL';
+    }
+
+    return 'AFFIRMED';
+  }
+
+  /**
+   * True when a phrase found at [start, end) is stated rather than negated or asked.
+   * "I'm safe" → true; "I'm not sure I'm safe", "i'm safe? no", "nobody is with me",
+   * "i'm safe, i don't think so" → false
+   */
+  isAsserted(text: string, start: number, end: number): boolean {
+    const { clauseStart, clauseEnd } = this.findClause(text, start, end);
+    const prefixWords = text
+      .slice(clauseStart, start)
+      .split(/\s+/)
+      .filter((w) => w.length > 0)
+      .slice(-SCOPE_WINDOW_WORDS);
+
+    if (this.isGovernedBy(prefixWords, isNegationWord, ASSERTION_BRIDGE_WORDS)) {
+      return false;
+    }
+
+    if (CLAUSE_NEGATION.test(text.slice(clauseStart, clauseEnd))) {
+      return false;
+    }
+
+    // A question mark closing the clause makes it a question
+    const rest = text.slice(clauseEnd);
+    return !/^\s*\?/.test(rest) && !TRAILING_NEGATION.test(rest);
+  }
+
+  /**
+   * True when the nearest cue before the mention is followed only by bridge words
+   */
+  private isGovernedBy(
+    prefixWords: string[],
+    isCue: (word: string) => boolean,
+    bridgeWords: Set<string> = BRIDGE_WORDS
+  ): boolean {
+    for (let i = prefixWords.length - 1; i >= 0; i--) {
+      const word = prefixWords[i];
+      if (isCue(word)) {
+        return true;
+      }
+      if (!bridgeWords.has(normalizeWord(word))) {
+        return false;
+      }
+    }
+    return false;
+  }
+
+  /**
+   * Locate the clause containing the mention
+   */
+  private findClause(
+    text: string,
+    start: number,
+    end: number
+  ): { clauseStart: number; clauseEnd: number } {
+    let clauseStart = 0;
+    let clauseEnd = text.length;
+
+    for (const boundary of text.matchAll(CLAUSE_BOUNDARY)) {
+      const index = boundary.index ?? 0;
+      if (index + boundary[0].length <= start) {
+        clauseStart = index + boundary[0].length;
+      } else if (index >= end) {
+        clauseEnd = index;
+        break;
+      }
+    }
+
+    return { clauseStart, clauseEnd };
+  }
+}
+
+export default new MentionScopeAnalyzer();
@@ -0,0 +1,266 @@
+import { LLMTask, Mode } from '../types';
+import { isKnownPromptVersion } from '../prompts';
+
+// =============================================================================
+// METRICS - Pipeline counters and latency histograms in Prometheus text format
+// Label cardinality is bounded in two ways: label values outside a safe
+// character set (or too long) become "other", and each metric holds at most
+// MAX_SERIES_PER_METRIC label combinations; later combinations are folded into
+// a single all-"other" series. Prompt versions are limited to known templates.
+// =============================================================================
+
+type Labels = Record<string, string>;
+
+const METRIC_PREFIX = 'mii_';
+
+const MAX_SERIES_PER_METRIC = 200;
+
+const OTHER = 'other';
+
+// prompt_version of LLM calls without a versioned prompt (classifier, judge, summary)
+const NONE = 'none';
+
+const SAFE_LABEL_VALUE = /^[A-Za-z0-9_.:@-]{1,64}$/;
+
+// Seconds; end-to-end and LLM calls range from cached stubs to slow remote models
+const LATENCY_BUCKETS = [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 20, 30, 60];
+
+// Seconds; the classifier and judge are bounded by their *_TIMEOUT_MS
+const CLASSIFIER_BUCKETS = [0.05, 0.1, 0.25, 0.5, 1, 2, 4, 8, 16];
+
+function escapeLabelValue(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+}
+
+function formatLabels(labels: Labels): string {
+  const pairs = Object.entries(labels).map(([k, v]) => `${k}="${escapeLabelValue(v)}"`);
+  return pairs.length > 0 ? `{${pairs.join(',')}}` : '';
+}
+
+/**
+ * Label combinations of one metric, with the cardinality bounds applied
+ */
+class SeriesMap<T> {
+  private series: Map<string, { labels: Labels; value: T }> = new Map();
+
+  constructor(
+    private readonly labelNames: string[],
+    private readonly create: () => T
+  ) {}
+
+  get(labels: Labels): T {
+    let bounded: Labels = {};
+    for (const name of this.labelNames) {
+      const value = labels[name] ?? '';
+      bounded[name] = SAFE_LABEL_VALUE.test(value) ? value : OTHER;
+    }
+
+    let key = JSON.stringify(bounded);
+    if (!this.series.has(key) && this.series.size >= MAX_SERIES_PER_METRIC) {
+      bounded = Object.fromEntries(this.labelNames.map((name) => [name, OTHER]));
+      key = JSON.stringify(bounded);
+    }
+
+    let entry = this.series.get(key);
+    if (!entry) {
+      entry = { labels: bounded, value: this.create() };
+      this.series.set(key, entry);
+    }
+    return entry.value;
+  }
+
+  entries(): { labels: Labels; value: T }[] {
+    return [...this.series.values()];
+  }
+}
+
+class Counter {
+  private series: SeriesMap<{ count: number }>;
+
+  constructor(
+    readonly name: string,
+    private readonly help: string,
+    labelNames: string[]
+  ) {
+    this.series = new SeriesMap(labelNames, () => ({ count: 0 }));
+  }
+
+  inc(labels: Labels, value = 1): void {
+    this.series.get(labels).count += value;
+  }
+
+  render(): string[] {
+    return [
+      `# HELP ${this.name} ${this.help}`,
+      `# TYPE ${this.name} counter`,
+      ...this.series.entries().map(({ labels, value }) => `${this.name}${formatLabels(labels)} ${value.count}`),
+    ];
+  }
+}
+
+class Histogram {
+  private series: SeriesMap<{ buckets: number[]; sum: number; count: number }>;
+
+  constructor(
+    readonly name: string,
+    private readonly help: string,
+    labelNames: string[],
+    private readonly bounds: number[]
+  ) {
+    this.series = new SeriesMap(labelNames, () => ({
+      buckets: bounds.map(() => 0),
+      sum: 0,
+      count: 0,
+    }));
+  }
+
+  observe(labels: Labels, seconds: number): void {
+    const series = this.series.get(labels);
+    this.bounds.forEach((bound, i) => {
+      if (seconds <= bound) series.buckets[i]++;
+    });
+    series.sum += seconds;
+    series.count++;
+  }
+
+  render(): string[] {
+    const lines = [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} histogram`];
+    for (const { labels, value } of this.series.entries()) {
+      this.bounds.forEach((bound, i) => {
+        lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: String(bound) })} ${value.buckets[i]}`);
+      });
+      lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: '+Inf' })} ${value.count}`);
+      lines.push(`${this.name}_sum${formatLabels(labels)} ${value.sum}`);
+      lines.push(`${this.name}_count${formatLabels(labels)} ${value.count}`);
+    }
+    return lines;
+  }
+}
+
+class Metrics {
+  private turns = new Counter(
+    `${METRIC_PREFIX}turns_total`,
+    'Chat turns by mode',
+    ['mode', 'provider', 'prompt_version']
+  );
+  private modeReasons = new Counter(
+    `${METRIC_PREFIX}mode_reasons_total`,
+    'Chat turns by the reason their mode was chosen',
+    ['mode', 'reason']
+  );
+  private safetyFlags = new Counter(
+    `${METRIC_PREFIX}safety_flags_total`,
+    'Safety flags raised on chat turns',
+    ['flag']
+  );
+  private validatorRejections = new Counter(
+    `${METRIC_PREFIX}validator_rejections_total`,
+    'LLM responses replaced by the response validator',
+    ['flag', 'provider', 'prompt_version']
+  );
+  private turnDuration = new Histogram(
+    `${METRIC_PREFIX}turn_duration_seconds`,
+    'End-to-end chat turn latency',
+    ['mode', 'provider', 'prompt_version'],
+    LATENCY_BUCKETS
+  );
+  private llmDuration = new Histogram(
+    `${METRIC_PREFIX}llm_request_duration_seconds`,
+    'Latency of LLM provider calls (per attempt)',
+    ['provider', 'task', 'outcome', 'prompt_version'],
+    LATENCY_BUCKETS
+  );
+  private classifierDuration = new Histogram(
+    `${METRIC_PREFIX}semantic_classifier_duration_seconds`,
+    'Latency of semantic risk classification',
+    ['provider', 'outcome'],
+    CLASSIFIER_BUCKETS
+  );
+  private judgeDuration = new Histogram(
+    `${METRIC_PREFIX}response_judge_duration_seconds`,
+    'Latency of the LLM judge pass over responses',
+    ['provider', 'outcome'],
+    CLASSIFIER_BUCKETS
+  );
+
+  /**
+   * Count a finished turn and its end-to-end latency
+   */
+  recordTurn(turn: {
+    mode: Mode;
+    modeReason: string;
+    safetyFlags: string[];
+    llmProvider: string;
+    promptVersion: string;
+    latencyMs: number;
+  }): void {
+    const promptVersion = this.promptVersionLabel(turn.promptVersion);
+    const labels = { mode: turn.mode, provider: turn.llmProvider, prompt_version: promptVersion };
+
+    this.turns.inc(labels);
+    this.modeReasons.inc({ mode: turn.mode, reason: turn.modeReason });
+    for (const flag of new Set(turn.safetyFlags)) {
+      this.safetyFlags.inc({ flag });
+    }
+    this.turnDuration.observe(labels, turn.latencyMs / 1000);
+  }
+
+  recordValidatorRejection(flags: string[], provider: string, promptVersion: string): void {
+    for (const flag of flags) {
+      this.validatorRejections.inc({
+        flag,
+        provider,
+        prompt_version: this.promptVersionLabel(promptVersion),
+      });
+    }
+  }
+
+  /**
+   * Observe one LLM call attempt. prompt_version is the chat prompt's version, the same
+   * one recordTurn reports for the turn, and "none" for tasks without a versioned prompt.
+   */
+  observeLlmRequest(
+    provider: string,
+    task: LLMTask,
+    promptVersion: string | undefined,
+    outcome: 'success' | 'error',
+    ms: number
+  ): void {
+    const prompt_version = promptVersion ? this.promptVersionLabel(promptVersion) : NONE;
+    this.llmDuration.observe({ provider, task, outcome, prompt_version }, ms / 1000);
+  }
+
+  observeSemanticClassifier(provider: string, outcome: string, ms: number): void {
+    this.classifierDuration.observe({ provider, outcome }, ms / 1000);
+  }
+
+  observeResponseJudge(provider: string, outcome: string, ms: number): void {
+    this.judgeDuration.observe({ provider, outcome }, ms / 1000);
+  }
+
+  /**
+   * All metrics in the Prometheus text exposition format
+   */
+  render(): string {
+    return (
+      [
+        this.turns,
+        this.modeReasons,
+        this.safetyFlags,
+        this.validatorRejections,
+        this.turnDuration,
+        this.llmDuration,
+        this.classifierDuration,
+        this.judgeDuration,
+      ]
+        .flatMap((metric) => metric.render())
+        .join('\n') + '\n'
+    );
+  }
+
+  private promptVersionLabel(version: string): string {
+    return isKnownPromptVersion(version) ? version : OTHER;
+  }
+}
+
+export default new Metrics();
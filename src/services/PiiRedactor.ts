@@ -0,0 +1,20 @@
+// Patterns for personal data that can be recognised reliably without a model.
+// Names and addresses are not detected; redacted text must still be treated as sensitive.
+const PII_PATTERNS: { pattern: RegExp; replacement: string }[] = [
+  { pattern: /[\w.+-]+@[\w-]+(?:\.[\w-]+)+/g, replacement: '[EMAIL]' },
+  { pattern: /\b(?:https?:\/\/|www\.)\S+/gi, replacement: '[URL]' },
+  { pattern: /\b\d{1,3}(?:\.\d{1,3}){3}\b/g, replacement: '[IP]' },
+  // Phone numbers, card and account numbers: 7+ digits with common separators
+  { pattern: /\+?\d(?:[\s().-]*\d){6,}/g, replacement: '[NUMBER]' },
+];
+
+/**
+ * Replace e-mail addresses, URLs, IP addresses and long digit sequences
+ * (phone, card and account numbers) with placeholders
+ */
+export function redactPii(text: string): string {
+  return PII_PATTERNS.reduce(
+    (redacted, { pattern, replacement }) => redacted.replace(pattern, replacement),
+    text
+  );
+}
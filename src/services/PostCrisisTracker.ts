@@ -0,0 +1,128 @@
+import { PostCrisisState } from '../types';
+import ConversationStore from '../stores/ConversationStore';
+import RulePackRegistry from './RulePackRegistry';
+import CrisisResourceDirectory from './CrisisResourceDirectory';
+import MentionScopeAnalyzer from './MentionScopeAnalyzer';
+import { DEFAULT_LANGUAGE, isSupportedLanguage } from '../locales';
+
+// =============================================================================
+// POST-CRISIS FOLLOW-UP - Check-in state after a CRISIS turn
+// A CRISIS turn starts (or restarts) the follow-up. Each later turn looks for
+// the user naming their country, confirming they are safe, and saying they
+// reached out to someone (rule pack postCrisisPatterns, English plus the
+// conversation language; negated or questioned phrases do not count, including
+// "nobody ..." and a trailing "I don't think so"). The
+// follow-up is RESOLVED once the user is safe and has reached out, and TIMED_OUT
+// after POST_CRISIS_MAX_CHECK_INS check-in turns or POST_CRISIS_TIMEOUT_MS since
+// the crisis. While ACTIVE, turns are check-ins.
+// =============================================================================
+
+// Environment configuration - read lazily to allow dotenv to load first
+function getMaxCheckIns(): number {
+  return parseInt(process.env.POST_CRISIS_MAX_CHECK_INS || '5', 10);
+}
+
+function getTimeoutMs(): number {
+  return parseInt(process.env.POST_CRISIS_TIMEOUT_MS || '7200000', 10);
+}
+
+/**
+ * Post-crisis phrases for a language (always including English)
+ */
+function getPatterns(language: string): { safetyConfirmed: string[]; reachedOut: string[] } {
+  const pack = RulePackRegistry.getActive();
+  const codes = isSupportedLanguage(language)
+    ? [...new Set([DEFAULT_LANGUAGE, language])]
+    : Object.keys(pack.locales);
+  const sets = codes.map((code) => RulePackRegistry.getLocaleRules(pack, code).postCrisisPatterns);
+  return {
+    safetyConfirmed: sets.flatMap((p) => p.safetyConfirmed),
+    reachedOut: sets.flatMap((p) => p.reachedOut),
+  };
+}
+
+/**
+ * True when a phrase occurs as a statement, not negated or asked
+ * ("I'm not sure I'm safe" and "i'm safe? no" do not settle anything)
+ */
+function isStated(lowerText: string, phrases: string[]): boolean {
+  return phrases.some((phrase) => {
+    let start = lowerText.indexOf(phrase);
+    while (start !== -1) {
+      if (MentionScopeAnalyzer.isAsserted(lowerText, start, start + phrase.length)) return true;
+      start = lowerText.indexOf(phrase, start + 1);
+    }
+    return false;
+  });
+}
+
+class PostCrisisTracker {
+  /**
+   * Start the follow-up on a CRISIS turn; a repeated crisis starts it over
+   */
+  async recordCrisis(conversationId: string, countryShared: boolean): Promise<PostCrisisState> {
+    const previous = await ConversationStore.getPostCrisisState(conversationId);
+    const now = new Date().toISOString();
+    const state: PostCrisisState = {
+      status: 'ACTIVE',
+      countryShared: countryShared || (previous?.countryShared ?? false),
+      safetyConfirmed: false,
+      reachedOut: false,
+      checkInTurns: 0,
+      startedAt: now,
+      updatedAt: now,
+    };
+    await ConversationStore.setPostCrisisState(conversationId, state);
+    return state;
+  }
+
+  /**
+   * True while the conversation's post-crisis follow-up is ACTIVE
+   */
+  async isActive(conversationId: string): Promise<boolean> {
+    const state = await ConversationStore.getPostCrisisState(conversationId);
+    return state?.status === 'ACTIVE';
+  }
+
+  /**
+   * Advance an active follow-up with a non-CRISIS user message.
+   * Returns the state after this message (ACTIVE means this turn is a check-in),
+   * or null if the conversation never had a crisis.
+   */
+  async update(
+    conversationId: string,
+    userMessage: string,
+    language: string
+  ): Promise<PostCrisisState | null> {
+    const previous = await ConversationStore.getPostCrisisState(conversationId);
+    if (!previous || previous.status !== 'ACTIVE') return previous;
+
+    // Step 1: What the user settled in this message
+    const lowerText = userMessage.toLowerCase();
+    const patterns = getPatterns(language);
+    const state: PostCrisisState = {
+      ...previous,
+      countryShared:
+        previous.countryShared ||
+        CrisisResourceDirectory.resolveCountry({ userTexts: [userMessage] }) !== null,
+      safetyConfirmed: previous.safetyConfirmed || isStated(lowerText, patterns.safetyConfirmed),
+      reachedOut: previous.reachedOut || isStated(lowerText, patterns.reachedOut),
+      updatedAt: new Date().toISOString(),
+    };
+
+    // Step 2: Resolve, time out, or count another check-in
+    const elapsedMs = Date.now() - new Date(previous.startedAt).getTime();
+    if (state.safetyConfirmed && state.reachedOut) {
+      state.status = 'RESOLVED';
+    } else if (previous.checkInTurns >= getMaxCheckIns() || elapsedMs > getTimeoutMs()) {
+      state.status = 'TIMED_OUT';
+    } else {
+      state.checkInTurns++;
+    }
+
+    await ConversationStore.setPostCrisisState(conversationId, state);
+    return state;
+  }
+}
+
+export default new PostCrisisTracker();
@@ -0,0 +1,99 @@
+import crypto from 'crypto';
+import { DEFAULT_PROMPT_VERSION, isKnownPromptVersion } from '../prompts';
+import { createLogger } from './Logger';
+
+// =============================================================================
+// PROMPT REGISTRY - Sticky A/B assignment of prompt template versions
+// PROMPT_TRAFFIC_SPLIT sets relative weights per version ("v1.0:90,v1.1:10").
+// A conversation's variant is derived from a hash of its ID, so it stays the same
+// for every turn and across restarts as long as the split is unchanged.
+// =============================================================================
+
+type SplitEntry = { version: string; weight: number };
+
+const log = createLogger('PromptRegistry');
+
+// Number of hash buckets the split is spread over
+const BUCKET_COUNT = 10000;
+
+// Environment configuration - read lazily to allow dotenv to load first
+function getTrafficSplit(): string {
+  return process.env.PROMPT_TRAFFIC_SPLIT || `${DEFAULT_PROMPT_VERSION}:100`;
+}
+
+/**
+ * Parse "version:weight" pairs, skipping unknown versions and invalid weights
+ */
+function parseTrafficSplit(raw: string): SplitEntry[] {
+  const entries: SplitEntry[] = [];
+
+  for (const part of raw.split(',')) {
+    const [version, weightText] = part.split(':').map((s) => s.trim());
+    if (!version) continue;
+
+    const weight = Number(weightText);
+    if (!isKnownPromptVersion(version)) {
+      log.warn('Ignoring unknown prompt version', { version });
+    } else if (!Number.isFinite(weight) || weight <= 0) {
+      log.warn('Ignoring split entry: weight must be a positive number', { entry: part.trim() });
+    } else {
+      entries.push({ version, weight });
+    }
+  }
+
+  return entries;
+}
+
+class PromptRegistry {
+  private split: SplitEntry[] | null = null;
+
+  /**
+   * Lazy initialization - reads env vars on first use
+   * This allows dotenv to load before we read the config
+   */
+  private ensureInitialized(): SplitEntry[] {
+    if (this.split) return this.split;
+
+    const entries = parseTrafficSplit(getTrafficSplit());
+    if (entries.length === 0) {
+      log.warn('No valid prompt variants configured, using the default', {
+        version: DEFAULT_PROMPT_VERSION,
+      });
+      entries.push({ version: DEFAULT_PROMPT_VERSION, weight: 1 });
+    }
+
+    this.split = entries;
+    log.info('Traffic split', {
+      split: entries.map((e) => `${e.version}:${e.weight}`).join(','),
+    });
+    return this.split;
+  }
+
+  /**
+   * Prompt version assigned to a conversation
+   */
+  assign(conversationId: string): string {
+    const split = this.ensureInitialized();
+    if (split.length === 1) return split[0].version;
+
+    const totalWeight = split.reduce((sum, e) => sum + e.weight, 0);
+    const point = (this.bucketFor(conversationId) / BUCKET_COUNT) * totalWeight;
+
+    let cumulative = 0;
+    for (const entry of split) {
+      cumulative += entry.weight;
+      if (point < cumulative) return entry.version;
+    }
+    return split[split.length - 1].version;
+  }
+
+  /**
+   * Deterministic bucket in [0, BUCKET_COUNT) for a conversation ID
+   */
+  private bucketFor(conversationId: string): number {
+    const digest = crypto.createHash('sha256').update(`prompt:${conversationId}`).digest();
+    return digest.readUInt32BE(0) % BUCKET_COUNT;
+  }
+}
+
+export default new PromptRegistry();
@@ -0,0 +1,139 @@
+// =============================================================================
+// RATE LIMITER - Token buckets keyed by scope and identity
+// Each bucket holds up to `burst` tokens and refills at `perMinute` tokens per
+// minute. A request takes one token from every bucket it is checked against, or
+// none at all if any of them is empty.
+// The crisis tier (turns in a conversation still in crisis) has its own buckets,
+// RATE_LIMIT_CRISIS_MULTIPLIER times larger and faster to refill.
+// =============================================================================
+
+export type RateLimitScope = 'user' | 'conversation' | 'ip';
+
+export type RateLimitTier = 'standard' | 'crisis';
+
+type BucketConfig = { burst: number; perMinute: number };
+
+type Bucket = { tokens: number; updatedAt: number };
+
+export type RateLimitDecision =
+  | { allowed: true }
+  | { allowed: false; scope: RateLimitScope; retryAfterSeconds: number };
+
+// How often full (idle) buckets are dropped so the maps stay small
+const PRUNE_INTERVAL_MS = 60 * 1000;
+
+// Environment configuration - read lazily to allow dotenv to load first
+function getCrisisMultiplier(): number {
+  return parseFloat(process.env.RATE_LIMIT_CRISIS_MULTIPLIER || '3');
+}
+
+function getBucketConfig(scope: RateLimitScope, tier: RateLimitTier): BucketConfig {
+  const defaults: Record<RateLimitScope, BucketConfig> = {
+    user: { burst: 10, perMinute: 20 },
+    conversation: { burst: 5, perMinute: 10 },
+    ip: { burst: 30, perMinute: 60 },
+  };
+  const prefix = `RATE_LIMIT_${scope.toUpperCase()}_`;
+  const burst = parseFloat(process.env[`${prefix}BURST`] || String(defaults[scope].burst));
+  const perMinute = parseFloat(
+    process.env[`${prefix}PER_MINUTE`] || String(defaults[scope].perMinute)
+  );
+  const multiplier = tier === 'crisis' ? getCrisisMultiplier() : 1;
+  return { burst: burst * multiplier, perMinute: perMinute * multiplier };
+}
+
+class RateLimiter {
+  private buckets: Record<RateLimitTier, Map<RateLimitScope, Map<string, Bucket>>> = {
+    standard: new Map(),
+    crisis: new Map(),
+  };
+  private pruneTimer: NodeJS.Timeout | null = null;
+
+  /**
+   * Take one token for each (scope, key) pair from the tier's buckets, all or nothing
+   */
+  consume(
+    keys: Partial<Record<RateLimitScope, string>>,
+    tier: RateLimitTier = 'standard'
+  ): RateLimitDecision {
+    this.ensurePruning();
+    const now = Date.now();
+
+    const checks = (Object.entries(keys) as [RateLimitScope, string | undefined][])
+      .filter((entry): entry is [RateLimitScope, string] => Boolean(entry[1]))
+      .map(([scope, key]) => {
+        const config = getBucketConfig(scope, tier);
+        return { scope, config, bucket: this.refill(tier, scope, key, config, now) };
+      });
+
+    // Report the scope that frees up last, so one retry is enough
+    let denied: { scope: RateLimitScope; retryAfterSeconds: number } | null = null;
+    for (const { scope, config, bucket } of checks) {
+      if (bucket.tokens >= 1) continue;
+      const retryAfterSeconds = Math.ceil(((1 - bucket.tokens) / config.perMinute) * 60);
+      if (!denied || retryAfterSeconds > denied.retryAfterSeconds) {
+        denied = { scope, retryAfterSeconds };
+      }
+    }
+
+    if (denied) {
+      return { allowed: false, ...denied };
+    }
+
+    for (const { bucket } of checks) {
+      bucket.tokens -= 1;
+    }
+    return { allowed: true };
+  }
+
+  // For testing/debugging
+  reset(): void {
+    this.buckets.standard.clear();
+    this.buckets.crisis.clear();
+  }
+
+  /**
+   * Bucket for a key with the tokens earned since its last update added
+   */
+  private refill(
+    tier: RateLimitTier,
+    scope: RateLimitScope,
+    key: string,
+    config: BucketConfig,
+    now: number
+  ): Bucket {
+    let scoped = this.buckets[tier].get(scope);
+    if (!scoped) {
+      scoped = new Map();
+      this.buckets[tier].set(scope, scoped);
+    }
+
+    const bucket = scoped.get(key) ?? { tokens: config.burst, updatedAt: now };
+    const earned = ((now - bucket.updatedAt) / 60000) * config.perMinute;
+    bucket.tokens = Math.min(config.burst, bucket.tokens + earned);
+    bucket.updatedAt = now;
+    scoped.set(key, bucket);
+    return bucket;
+  }
+
+  private ensurePruning(): void {
+    if (this.pruneTimer) return;
+
+    this.pruneTimer = setInterval(() => {
+      const now = Date.now();
+      for (const tier of Object.keys(this.buckets) as RateLimitTier[]) {
+        for (const [scope, scoped] of this.buckets[tier]) {
+          const config = getBucketConfig(scope, tier);
+          for (const [key, bucket] of scoped) {
+            const earned = ((now - bucket.updatedAt) / 60000) * config.perMinute;
+            if (bucket.tokens + earned >= config.burst) scoped.delete(key);
+          }
+        }
+      }
+    }, PRUNE_INTERVAL_MS);
+    // Do not keep scripts alive just for pruning
+    this.pruneTimer.unref();
+  }
+}
+
+export default new RateLimiter();
@@ -1,121 +1,166 @@
-import { Mode, ValidationResult } from '../types';
-
-// Patterns that indicate unsafe responses
-const DIAGNOSIS_PATTERNS = [
-  'you have depression',
-  'you are depressed',
-  'you have anxiety',
-  'you are bipolar',
-  'you have ptsd',
-  'you are schizophrenic',
-  'you have ocd',
-  'you suffer from',
-  'you are clinically',
-  'i diagnose',
-  'my diagnosis',
-];
-
-const MEDICATION_PATTERNS = [
-  'take xanax',
-  'take prozac',
-  'take zoloft',
-  'take antidepressants',
-  'take medication',
-  'you should take',
-  'i recommend taking',
-  'try taking',
-  'prescription for',
-  'mg of',
-  'dosage of',
-];
-
-const GUARANTEE_PATTERNS = [
-  'you will be fine',
-  'you will get better',
-  'i promise',
-  'i guarantee',
-  'everything will be okay',
-  'nothing bad will happen',
-  'you will definitely',
-];
-
-const SAFE_FALLBACK_NORMAL = 
-  "I'm here to listen and support you. Would you like to share more about what's on your mind?";
-
-const SAFE_FALLBACK_SUPPORTIVE = 
-  "I hear you, and I want you to know that your feelings are valid. " +
-  "I'm here to listen without judgment. Would you like to tell me more about what you're experiencing?";
-
-const SAFE_FALLBACK_CRISIS = 
-  "I'm really glad you reached out. What you're feeling matters, and you don't have to face this alone. " +
-  "Please consider reaching out to someone you trust—a friend, family member, or counselor. " +
-  "If you're in immediate danger, please contact your local emergency services or a crisis helpline. " +
-  "I'm here to listen.";
+import { Mode, ValidationResult, StreamValidationResult, ResponsePatterns } from '../types';
+import { DEFAULT_LANGUAGE, getLocale, isSupportedLanguage } from '../locales';
+import RulePackRegistry, { RulePack } from './RulePackRegistry';
+import ResponseJudge from './ResponseJudge';
+
+// Patterns that indicate unsafe responses come from the active rule pack.
+// English patterns are always checked, plus those of the conversation language
+// (or every locale's patterns when the language is unsupported).
+// Responses that pass the patterns can get a second pass by the LLM judge
+// (RESPONSE_JUDGE_ENABLED), which also catches paraphrases.
+
+/**
+ * Unsafe response patterns for a language (always including English)
+ */
+function getResponsePatterns(pack: RulePack, language: string): ResponsePatterns {
+  const sets = isSupportedLanguage(language)
+    ? [
+        ...new Set([
+          RulePackRegistry.getLocaleRules(pack, DEFAULT_LANGUAGE).responsePatterns,
+          RulePackRegistry.getLocaleRules(pack, language).responsePatterns,
+        ]),
+      ]
+    : Object.values(pack.locales).map((rules) => rules.responsePatterns);
+  return {
+    diagnosis: sets.flatMap((p) => p.diagnosis),
+    medication: sets.flatMap((p) => p.medication),
+    guarantee: sets.flatMap((p) => p.guarantee),
+  };
+}
+
+/**
+ * Diagnosis patterns a conversation summary must not contain: the response diagnosis
+ * patterns plus the pack's third-person summary patterns, for the same locales
+ */
+function getSummaryDiagnosisPatterns(pack: RulePack, language: string): string[] {
+  const codes = isSupportedLanguage(language)
+    ? [...new Set([DEFAULT_LANGUAGE, language])]
+    : Object.keys(pack.locales);
+  return codes.flatMap((code) => {
+    const rules = RulePackRegistry.getLocaleRules(pack, code);
+    return [...rules.responsePatterns.diagnosis, ...rules.summaryPatterns.diagnosis];
+  });
+}
+
+/**
+ * Find the first unsafe pattern in a response (diagnosis > medication > guarantee)
+ */
+function findViolation(
+  lowerText: string,
+  patterns: ResponsePatterns
+): { flag: string; reason: string } | null {
+  // Check for diagnosis patterns
+  for (const pattern of patterns.diagnosis) {
+    if (lowerText.includes(pattern)) {
+      return {
+        flag: 'DIAGNOSIS_DETECTED',
+        reason: `Response contained diagnosis pattern: "${pattern}"`,
+      };
+    }
+  }
+
+  // Check for medication advice
+  for (const pattern of patterns.medication) {
+    if (lowerText.includes(pattern)) {
+      return {
+        flag: 'MEDICATION_ADVICE_DETECTED',
+        reason: `Response contained medication advice pattern: "${pattern}"`,
+      };
+    }
+  }
+
+  // Check for absolute guarantees
+  for (const pattern of patterns.guarantee) {
+    if (lowerText.includes(pattern)) {
+      return {
+        flag: 'ABSOLUTE_GUARANTEE_DETECTED',
+        reason: `Response contained guarantee pattern: "${pattern}"`,
+      };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Mode-appropriate safe fallback message in the conversation language
+ */
+function getSafeFallback(mode: Mode, language: string): string {
+  return getLocale(language).templates.safeFallback[mode];
+}
+
+/**
+ * Rule pass: unsafe patterns of the active rule pack
+ */
+function validateRules(mode: Mode, assistantText: string, language: string): ValidationResult {
+  const pack = RulePackRegistry.getActive();
+  const violation = findViolation(
+    assistantText.toLowerCase(),
+    getResponsePatterns(pack, language)
+  );
+
+  // If unsafe, provide sanitized fallback
+  if (violation) {
+    return {
+      isSafe: false,
+      safetyFlags: [violation.flag],
+      sanitizedText: getSafeFallback(mode, language),
+      reason: violation.reason,
+    };
+  }
+
+  return {
+    isSafe: true,
+    safetyFlags: [],
+  };
+}
 
 class ResponseValidator {
+  /**
+   * Rule pass, then the judge pass if enabled (or required, e.g. for post-crisis check-ins)
+   */
   async validate(
     mode: Mode,
-    _userText: string,
-    assistantText: string
+    userText: string,
+    assistantText: string,
+    language: string = DEFAULT_LANGUAGE,
+    options: { requireJudge?: boolean } = {}
   ): Promise<ValidationResult> {
-    const lowerText = assistantText.toLowerCase();
-    const safetyFlags: string[] = [];
-    let isSafe = true;
-    let reason: string | undefined;
-
-    // Check for diagnosis patterns
-    for (const pattern of DIAGNOSIS_PATTERNS) {
-      if (lowerText.includes(pattern)) {
-        isSafe = false;
-        safetyFlags.push('DIAGNOSIS_DETECTED');
-        reason = `Response contained diagnosis pattern: "${pattern}"`;
-        break;
-      }
+    // Step 1: Rule pass; a pattern match needs no second opinion
+    const ruleResult = validateRules(mode, assistantText, language);
+    if (!ruleResult.isSafe || !(options.requireJudge || ResponseJudge.isEnabled())) {
+      return ruleResult;
     }
 
-    // Check for medication advice
-    if (isSafe) {
-      for (const pattern of MEDICATION_PATTERNS) {
-        if (lowerText.includes(pattern)) {
-          isSafe = false;
-          safetyFlags.push('MEDICATION_ADVICE_DETECTED');
-          reason = `Response contained medication advice pattern: "${pattern}"`;
-          break;
-        }
-      }
+    // Step 2: Judge pass, with the user message as context
+    const verdict = await ResponseJudge.judge(mode, userText, assistantText);
+    if (!verdict.isSafe) {
+      return {
+        isSafe: false,
+        safetyFlags: [...ruleResult.safetyFlags, ...verdict.safetyFlags],
+        sanitizedText: getSafeFallback(mode, language),
+        reason: `Judge: ${verdict.rationale}`,
+      };
     }
 
-    // Check for absolute guarantees
-    if (isSafe) {
-      for (const pattern of GUARANTEE_PATTERNS) {
-        if (lowerText.includes(pattern)) {
-          isSafe = false;
-          safetyFlags.push('ABSOLUTE_GUARANTEE_DETECTED');
-          reason = `Response contained guarantee pattern: "${pattern}"`;
-          break;
-        }
-      }
-    }
+    return ruleResult;
+  }
 
-    // If unsafe, provide sanitized fallback
-    if (!isSafe) {
-      let sanitizedText: string;
-      switch (mode) {
-        case 'CRISIS':
-          sanitizedText = SAFE_FALLBACK_CRISIS;
-          break;
-        case 'SUPPORTIVE':
-          sanitizedText = SAFE_FALLBACK_SUPPORTIVE;
-          break;
-        default:
-          sanitizedText = SAFE_FALLBACK_NORMAL;
-      }
+  /**
+   * Check a generated conversation summary: it is fed back into every later prompt,
+   * so it must not label the user with a diagnosis
+   */
+  validateSummary(summaryText: string, language: string = DEFAULT_LANGUAGE): ValidationResult {
+    const lowerText = summaryText.toLowerCase();
+    const pattern = getSummaryDiagnosisPatterns(RulePackRegistry.getActive(), language).find((p) =>
+      lowerText.includes(p)
+    );
 
+    if (pattern) {
       return {
         isSafe: false,
-        safetyFlags,
-        sanitizedText,
-        reason,
+        safetyFlags: ['SUMMARY_DIAGNOSIS_DETECTED'],
+        reason: `Summary contained diagnosis pattern: "${pattern}"`,
       };
     }
 
@@ -124,7 +169,53 @@ class ResponseValidator {
       safetyFlags: [],
     };
   }
+
+  /**
+   * Safe fallback message for a mode, used when no response can be generated
+   */
+  getSafeFallback(mode: Mode, language: string = DEFAULT_LANGUAGE): string {
+    return getSafeFallback(mode, language);
+  }
+
+  /**
+   * Incremental check for streamed responses.
+   * Validates the text accumulated so far and reports how much of it can be
+   * released to the client. The tail is held back until the stream ends so that
+   * a pattern split across chunks is caught before any part of it is sent.
+   * Only the final check runs the judge pass; partial text gets the rule pass.
+   * With the judge enabled nothing is released before the final check, so no
+   * text reaches the client before the judge has passed it.
+   */
+  async validatePartial(
+    mode: Mode,
+    userText: string,
+    accumulatedText: string,
+    isFinal: boolean,
+    language: string = DEFAULT_LANGUAGE
+  ): Promise<StreamValidationResult> {
+    const validation = isFinal
+      ? await this.validate(mode, userText, accumulatedText, language)
+      : validateRules(mode, accumulatedText, language);
+
+    if (!validation.isSafe) {
+      return { validation, releasableLength: 0 };
+    }
+
+    if (!isFinal && ResponseJudge.isEnabled()) {
+      return { validation, releasableLength: 0 };
+    }
+
+    return {
+      validation,
+      releasableLength: isFinal
+        ? accumulatedText.length
+        : Math.max(
+            0,
+            // Longest pattern minus one: a pattern split across chunks is never partially sent
+            accumulatedText.length - (RulePackRegistry.getActive().maxResponsePatternLength - 1)
+          ),
+    };
+  }
 }
 
 export default new ResponseValidator();
-
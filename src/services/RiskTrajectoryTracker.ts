@@ -0,0 +1,125 @@
+import { InputAnalysis, RiskLevel, RiskState, RiskTrajectory, RiskTrend } from '../types';
+import ConversationStore from '../stores/ConversationStore';
+
+// =============================================================================
+// RISK TRAJECTORY - Conversation-level risk across turns
+// - Cumulative score: each turn adds points, older turns decay geometrically
+// - Sticky crisis: after a CRISIS turn, mode cannot drop below SUPPORTIVE
+//   for a cooldown period
+// The trajectory can only raise the per-turn mode, never lower it.
+// =============================================================================
+
+// Points added per turn for the rule/semantic risk level (soft-signal score is added on top)
+const RISK_LEVEL_POINTS: Record<RiskLevel, number> = {
+  LOW: 0,
+  MEDIUM: 2,
+  HIGH: 8,
+};
+
+// Fraction of the cumulative score carried over to the next turn
+const CUMULATIVE_DECAY = 0.7;
+
+// Cumulative thresholds (repeated soft signals reach CRISIS after ~3 turns)
+const CUMULATIVE_CRISIS_THRESHOLD = 12;
+const CUMULATIVE_SUPPORTIVE_THRESHOLD = 4;
+
+// Turns after a CRISIS turn during which mode stays at least SUPPORTIVE
+const CRISIS_COOLDOWN_TURNS = 3;
+
+// Minimum score change between turns to report a RISING/FALLING trend
+const TREND_EPSILON = 1;
+
+class RiskTrajectoryTracker {
+  /**
+   * Record this turn's analysis and return it adjusted for conversation-level risk
+   */
+  async update(
+    conversationId: string,
+    analysis: InputAnalysis
+  ): Promise<{ analysis: InputAnalysis; trajectory: RiskTrajectory }> {
+    const previous = await ConversationStore.getRiskState(conversationId);
+    const previousScore = previous?.cumulativeScore ?? 0;
+    const turnCount = (previous?.turnCount ?? 0) + 1;
+
+    // Step 1: Decay and accumulate
+    const turnPoints =
+      RISK_LEVEL_POINTS[analysis.riskLevel] + (analysis.softSignalScore ?? 0);
+    const cumulativeScore = previousScore * CUMULATIVE_DECAY + turnPoints;
+
+    // Step 2: Raise mode from cumulative score and crisis cooldown
+    const lastCrisisTurn = previous?.lastCrisisTurn ?? null;
+    const crisisCooldownActive = this.isCooldownTurn(lastCrisisTurn, turnCount);
+
+    let adjusted = analysis;
+
+    if (adjusted.suggestedMode !== 'CRISIS' && cumulativeScore >= CUMULATIVE_CRISIS_THRESHOLD) {
+      adjusted = {
+        ...adjusted,
+        intent: 'MENTAL_HEALTH',
+        riskLevel: 'HIGH',
+        suggestedMode: 'CRISIS',
+        modeReason: 'CUMULATIVE_RISK_ESCALATION',
+        safetyFlags: [...adjusted.safetyFlags, 'CUMULATIVE_RISK_HIGH'],
+      };
+    } else if (adjusted.suggestedMode === 'NORMAL' && crisisCooldownActive) {
+      adjusted = {
+        ...adjusted,
+        riskLevel: 'MEDIUM',
+        suggestedMode: 'SUPPORTIVE',
+        modeReason: 'CRISIS_COOLDOWN',
+        safetyFlags: [...adjusted.safetyFlags, 'CRISIS_COOLDOWN_ACTIVE'],
+      };
+    } else if (
+      adjusted.suggestedMode === 'NORMAL' &&
+      cumulativeScore >= CUMULATIVE_SUPPORTIVE_THRESHOLD
+    ) {
+      adjusted = {
+        ...adjusted,
+        riskLevel: 'MEDIUM',
+        suggestedMode: 'SUPPORTIVE',
+        modeReason: 'CUMULATIVE_RISK_ELEVATED',
+        safetyFlags: [...adjusted.safetyFlags, 'CUMULATIVE_RISK_ELEVATED'],
+      };
+    }
+
+    // Step 3: Persist
+    const state: RiskState = {
+      cumulativeScore,
+      turnCount,
+      lastCrisisTurn: adjusted.suggestedMode === 'CRISIS' ? turnCount : lastCrisisTurn,
+      updatedAt: new Date().toISOString(),
+    };
+    await ConversationStore.setRiskState(conversationId, state);
+
+    return {
+      analysis: adjusted,
+      trajectory: {
+        trend: this.getTrend(previousScore, cumulativeScore),
+        cumulativeScore: Math.round(cumulativeScore * 100) / 100,
+        turnsSinceCrisis:
+          state.lastCrisisTurn !== null ? turnCount - state.lastCrisisTurn : null,
+        crisisCooldownActive,
+      },
+    };
+  }
+
+  /**
+   * True when the conversation's next turn falls inside the crisis cooldown
+   */
+  async isCooldownActive(conversationId: string): Promise<boolean> {
+    const state = await ConversationStore.getRiskState(conversationId);
+    return state !== null && this.isCooldownTurn(state.lastCrisisTurn, state.turnCount + 1);
+  }
+
+  private isCooldownTurn(lastCrisisTurn: number | null, turnCount: number): boolean {
+    return lastCrisisTurn !== null && turnCount - lastCrisisTurn <= CRISIS_COOLDOWN_TURNS;
+  }
+
+  private getTrend(previousScore: number, currentScore: number): RiskTrend {
+    if (currentScore - previousScore > TREND_EPSILON) return 'RISING';
+    if (previousScore - currentScore > TREND_EPSILON) return 'FALLING';
+    return 'STABLE';
+  }
+}
+
+export default new RiskTrajectoryTracker();
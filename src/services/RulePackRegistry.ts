@@ -0,0 +1,366 @@
+import fs from 'fs';
+import path from 'path';
+import bundledPack from '../data/rule-packs/default.json';
+import { RiskLexicon, ResponsePatterns } from '../types';
+import { DEFAULT_LANGUAGE, getAllLocales } from '../locales';
+import { createLogger } from './Logger';
+
+// =============================================================================
+// RULE PACKS - Versioned safety rules loaded from JSON
+// The bundled default pack is always available. RULE_PACK_PATH can point to an
+// external pack; with RULE_PACK_HOT_RELOAD=true it is watched and re-loaded on
+// change. A new pack is validated and fully compiled before it replaces the
+// active one, so an invalid pack is rejected and the previous pack stays active.
+// =============================================================================
+
+const log = createLogger('RulePackRegistry');
+
+const SUPPORTED_SCHEMA_VERSION = 1;
+
+// Editors often write a file in several steps; wait for them to settle
+const RELOAD_DEBOUNCE_MS = 200;
+
+export type RulePack = {
+  id: string;
+  version: string;
+  thresholds: {
+    softSignalCrisis: number;
+    softSignalSupportive: number;
+  };
+  locales: Record<
+    string,
+    {
+      lexicon: RiskLexicon;
+      responsePatterns: ResponsePatterns;
+      // Third-person diagnosis phrases, checked in conversation summaries (optional in packs)
+      summaryPatterns: { diagnosis: string[] };
+      // Phrases that settle the post-crisis check-in (optional in packs)
+      postCrisisPatterns: { safetyConfirmed: string[]; reachedOut: string[] };
+    }
+  >;
+  // Longest response pattern, used to size the streaming holdback
+  maxResponsePatternLength: number;
+};
+
+// Environment configuration - read lazily to allow dotenv to load first
+function getRulePackPath(): string | null {
+  return process.env.RULE_PACK_PATH || null;
+}
+
+function getHotReloadEnabled(): boolean {
+  return process.env.RULE_PACK_HOT_RELOAD === 'true';
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Validate a lowercase string list (rules are matched against lowercased text)
+ */
+function checkStringList(value: unknown, at: string, errors: string[]): string[] {
+  if (!Array.isArray(value)) {
+    errors.push(`${at} must be an array`);
+    return [];
+  }
+  const items: string[] = [];
+  value.forEach((item, i) => {
+    if (typeof item !== 'string' || item.trim().length === 0) {
+      errors.push(`${at}[${i}] must be a non-empty string`);
+    } else if (item !== item.toLowerCase()) {
+      errors.push(`${at}[${i}] must be lowercase`);
+    } else {
+      items.push(item);
+    }
+  });
+  return items;
+}
+
+function compileRegex(source: unknown, at: string, errors: string[]): RegExp | null {
+  if (typeof source !== 'string' || source.length === 0) {
+    errors.push(`${at} must be a non-empty regex string`);
+    return null;
+  }
+  try {
+    return new RegExp(source, 'i');
+  } catch (error) {
+    errors.push(`${at} is not a valid regex: ${error instanceof Error ? error.message : error}`);
+    return null;
+  }
+}
+
+/**
+ * Validate raw JSON against the rule pack schema and compile it.
+ * Throws with every problem found so a rejected pack can be fixed in one pass.
+ */
+export function compileRulePack(raw: unknown): RulePack {
+  const errors: string[] = [];
+
+  if (!isObject(raw)) {
+    throw new Error('Invalid rule pack: root must be an object');
+  }
+
+  if (raw.schemaVersion !== SUPPORTED_SCHEMA_VERSION) {
+    errors.push(`schemaVersion must be ${SUPPORTED_SCHEMA_VERSION}`);
+  }
+  if (typeof raw.id !== 'string' || raw.id.length === 0) {
+    errors.push('id must be a non-empty string');
+  }
+  if (typeof raw.version !== 'string' || raw.version.length === 0) {
+    errors.push('version must be a non-empty string');
+  }
+
+  // Thresholds
+  const thresholds = isObject(raw.thresholds) ? raw.thresholds : {};
+  const softSignalCrisis = thresholds.softSignalCrisis;
+  const softSignalSupportive = thresholds.softSignalSupportive;
+  if (typeof softSignalCrisis !== 'number' || softSignalCrisis <= 0) {
+    errors.push('thresholds.softSignalCrisis must be a positive number');
+  }
+  if (typeof softSignalSupportive !== 'number' || softSignalSupportive <= 0) {
+    errors.push('thresholds.softSignalSupportive must be a positive number');
+  }
+  if (
+    typeof softSignalCrisis === 'number' &&
+    typeof softSignalSupportive === 'number' &&
+    softSignalSupportive >= softSignalCrisis
+  ) {
+    errors.push('thresholds.softSignalSupportive must be below thresholds.softSignalCrisis');
+  }
+
+  // Locales: every supported language must be covered
+  const rawLocales = isObject(raw.locales) ? raw.locales : {};
+  if (!isObject(raw.locales)) {
+    errors.push('locales must be an object');
+  }
+
+  const locales: RulePack['locales'] = {};
+
+  for (const { code } of getAllLocales()) {
+    const at = `locales.${code}`;
+    const entry = rawLocales[code];
+    if (!isObject(entry)) {
+      errors.push(`${at} is required`);
+      continue;
+    }
+
+    const crisisPatterns: RegExp[] = [];
+    if (!Array.isArray(entry.crisisPatterns)) {
+      errors.push(`${at}.crisisPatterns must be an array`);
+    } else {
+      entry.crisisPatterns.forEach((source, i) => {
+        const regex = compileRegex(source, `${at}.crisisPatterns[${i}]`, errors);
+        if (regex) crisisPatterns.push(regex);
+      });
+    }
+
+    const explicitCrisisKeywords = checkStringList(
+      entry.explicitCrisisKeywords,
+      `${at}.explicitCrisisKeywords`,
+      errors
+    );
+
+    // A locale without explicit crisis rules would silently never reach CRISIS
+    if (Array.isArray(entry.explicitCrisisKeywords) && entry.explicitCrisisKeywords.length === 0) {
+      errors.push(`${at}.explicitCrisisKeywords must not be empty`);
+    }
+    if (Array.isArray(entry.crisisPatterns) && entry.crisisPatterns.length === 0) {
+      errors.push(`${at}.crisisPatterns must not be empty`);
+    }
+
+    const softCrisisSignals: RiskLexicon['softCrisisSignals'] = [];
+    if (!Array.isArray(entry.softCrisisSignals)) {
+      errors.push(`${at}.softCrisisSignals must be an array`);
+    } else {
+      entry.softCrisisSignals.forEach((signal, i) => {
+        const signalAt = `${at}.softCrisisSignals[${i}]`;
+        if (!isObject(signal) || typeof signal.weight !== 'number' || signal.weight <= 0) {
+          errors.push(`${signalAt} must have a positive numeric weight`);
+          return;
+        }
+        if ((signal.match === undefined) === (signal.regex === undefined)) {
+          errors.push(`${signalAt} must have exactly one of "match" or "regex"`);
+          return;
+        }
+        if (signal.match !== undefined) {
+          const [match] = checkStringList([signal.match], `${signalAt}.match`, errors);
+          if (match) softCrisisSignals.push({ pattern: match, weight: signal.weight });
+        } else {
+          const regex = compileRegex(signal.regex, `${signalAt}.regex`, errors);
+          if (regex) softCrisisSignals.push({ pattern: regex, weight: signal.weight });
+        }
+      });
+    }
+
+    const rawResponse = isObject(entry.responsePatterns) ? entry.responsePatterns : {};
+    if (!isObject(entry.responsePatterns)) {
+      errors.push(`${at}.responsePatterns must be an object`);
+    }
+
+    const rawSummary = isObject(entry.summaryPatterns) ? entry.summaryPatterns : {};
+    if (entry.summaryPatterns !== undefined && !isObject(entry.summaryPatterns)) {
+      errors.push(`${at}.summaryPatterns must be an object`);
+    }
+
+    const rawPostCrisis = isObject(entry.postCrisisPatterns) ? entry.postCrisisPatterns : {};
+    if (entry.postCrisisPatterns !== undefined && !isObject(entry.postCrisisPatterns)) {
+      errors.push(`${at}.postCrisisPatterns must be an object`);
+    }
+
+    locales[code] = {
+      lexicon: {
+        explicitCrisisKeywords,
+        crisisPatterns,
+        softCrisisSignals,
+        mentalHealthKeywords: checkStringList(
+          entry.mentalHealthKeywords,
+          `${at}.mentalHealthKeywords`,
+          errors
+        ),
+      },
+      responsePatterns: {
+        diagnosis: checkStringList(rawResponse.diagnosis, `${at}.responsePatterns.diagnosis`, errors),
+        medication: checkStringList(rawResponse.medication, `${at}.responsePatterns.medication`, errors),
+        guarantee: checkStringList(rawResponse.guarantee, `${at}.responsePatterns.guarantee`, errors),
+      },
+      summaryPatterns: {
+        diagnosis:
+          rawSummary.diagnosis === undefined
+            ? []
+            : checkStringList(rawSummary.diagnosis, `${at}.summaryPatterns.diagnosis`, errors),
+      },
+      postCrisisPatterns: {
+        safetyConfirmed:
+          rawPostCrisis.safetyConfirmed === undefined
+            ? []
+            : checkStringList(
+                rawPostCrisis.safetyConfirmed,
+                `${at}.postCrisisPatterns.safetyConfirmed`,
+                errors
+              ),
+        reachedOut:
+          rawPostCrisis.reachedOut === undefined
+            ? []
+            : checkStringList(rawPostCrisis.reachedOut, `${at}.postCrisisPatterns.reachedOut`, errors),
+      },
+    };
+  }
+
+  if (errors.length > 0) {
+    throw new Error(`Invalid rule pack: ${errors.join('; ')}`);
+  }
+
+  const maxResponsePatternLength = Math.max(
+    ...Object.values(locales).flatMap(({ responsePatterns: p }) =>
+      [...p.diagnosis, ...p.medication, ...p.guarantee].map((pattern) => pattern.length)
+    )
+  );
+
+  return {
+    id: raw.id as string,
+    version: raw.version as string,
+    thresholds: {
+      softSignalCrisis: softSignalCrisis as number,
+      softSignalSupportive: softSignalSupportive as number,
+    },
+    locales,
+    maxResponsePatternLength,
+  };
+}
+
+class RulePackRegistry {
+  private active: RulePack | null = null;
+  private watcher: fs.FSWatcher | null = null;
+  private reloadTimer: NodeJS.Timeout | null = null;
+
+  /**
+   * Lazy initialization - reads env vars on first use
+   * This allows dotenv to load before we read the config
+   */
+  private ensureInitialized(): RulePack {
+    if (this.active) return this.active;
+
+    // The bundled pack is part of the build; failing here is a programming error
+    this.active = compileRulePack(bundledPack);
+
+    const packPath = getRulePackPath();
+    if (packPath) {
+      this.reload();
+      if (getHotReloadEnabled()) {
+        this.watch(packPath);
+      }
+    }
+
+    return this.active;
+  }
+
+  /**
+   * The active pack. Callers should read it once per turn and reuse the reference,
+   * so a concurrent reload never mixes rules from two packs.
+   */
+  getActive(): RulePack {
+    return this.ensureInitialized();
+  }
+
+  getVersion(): string {
+    const pack = this.ensureInitialized();
+    return `${pack.id}@${pack.version}`;
+  }
+
+  /**
+   * Lexicon and response/summary patterns for a language, falling back to English
+   */
+  getLocaleRules(pack: RulePack, language: string): RulePack['locales'][string] {
+    return pack.locales[language] || pack.locales[DEFAULT_LANGUAGE];
+  }
+
+  /**
+   * Load the external pack from RULE_PACK_PATH and swap it in if valid.
+   * Returns false (keeping the current pack) if it cannot be read or is invalid.
+   */
+  reload(): boolean {
+    const packPath = getRulePackPath();
+    if (!packPath) return false;
+
+    try {
+      const raw = JSON.parse(fs.readFileSync(packPath, 'utf8'));
+      const pack = compileRulePack(raw);
+      this.active = pack;
+      log.info('Activated rule pack', { rulePack: `${pack.id}@${pack.version}` });
+      return true;
+    } catch (error) {
+      log.error('Rejected rule pack, keeping the active one', {
+        path: packPath,
+        active: `${this.active?.id}@${this.active?.version}`,
+        error,
+      });
+      return false;
+    }
+  }
+
+  /**
+   * Watch the pack's directory (editors often replace files rather than write in place)
+   */
+  private watch(packPath: string): void {
+    const resolved = path.resolve(packPath);
+    const fileName = path.basename(resolved);
+
+    try {
+      this.watcher = fs.watch(path.dirname(resolved), (_event, changed) => {
+        if (changed && changed.toString() !== fileName) return;
+
+        if (this.reloadTimer) clearTimeout(this.reloadTimer);
+        this.reloadTimer = setTimeout(() => {
+          this.reloadTimer = null;
+          this.reload();
+        }, RELOAD_DEBOUNCE_MS);
+      });
+      // Do not keep scripts alive just for the watcher
+      this.watcher.unref();
+    } catch (error) {
+      log.warn('Hot reload unavailable', { error });
+    }
+  }
+}
+
+export default new RulePackRegistry();
@@ -1,5 +1,9 @@
 import { Mode, RiskLevel, Intent } from '../types';
 import LLMClient from '../llm/LLMClient';
+import Metrics from './Metrics';
+import { createLogger } from './Logger';
+
+const log = createLogger('SemanticRiskClassifier');
 
 export type SemanticClassification = {
   riskLevel: RiskLevel;
@@ -124,6 +128,18 @@ function parseClassificationResponse(text: string): SemanticClassification {
   };
 }
 
+/**
+ * Provider the classifier task is routed to, for metrics when no provider answered
+ * ("none" if misconfigured)
+ */
+function getClassifierProvider(): string {
+  try {
+    return LLMClient.getProvider('classifier');
+  } catch {
+    return 'none';
+  }
+}
+
 /**
  * Create a promise that rejects after timeout
  */
@@ -150,6 +166,10 @@ class SemanticRiskClassifier {
       return getConservativeFallback('SEMANTIC_DISABLED');
     }
 
+    const startTime = Date.now();
+    let outcome = 'success';
+    let provider: string | undefined;
+
     try {
       // Create classification request with timeout
       const classificationPromise = LLMClient.generate({
@@ -159,13 +179,14 @@ class SemanticRiskClassifier {
         ],
         temperature: 0.0,
         maxTokens: 200,
-      });
+      }, 'classifier');
 
       // Race against timeout
       const response = await Promise.race([
         classificationPromise,
         createTimeout(getSemanticTimeoutMs()),
       ]);
+      provider = response.provider;
 
       // Parse response
       const classification = parseClassificationResponse(response.text);
@@ -183,12 +204,26 @@ class SemanticRiskClassifier {
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
       
       if (errorMessage === 'SEMANTIC_TIMEOUT') {
-        console.warn('[SemanticRiskClassifier] Timeout reached, using fallback');
+        outcome = 'timeout';
+        log.warn('Timeout reached, using fallback');
         return getConservativeFallback('SEMANTIC_TIMEOUT');
       }
+
+      if (errorMessage === 'LLM_UNAVAILABLE') {
+        outcome = 'unavailable';
+        log.warn('No LLM provider available, using fallback');
+        return getConservativeFallback('SEMANTIC_LLM_UNAVAILABLE');
+      }
       
-      console.warn('[SemanticRiskClassifier] Parse/request failed:', errorMessage);
+      outcome = 'parse_fail';
+      log.warn('Parse/request failed, using fallback', { error: errorMessage });
       return getConservativeFallback('SEMANTIC_PARSE_FAIL');
+    } finally {
+      Metrics.observeSemanticClassifier(
+        provider ?? getClassifierProvider(),
+        outcome,
+        Date.now() - startTime
+      );
     }
   }
 }
@@ -0,0 +1,155 @@
+import crypto from 'crypto';
+import path from 'path';
+import { AuditBackend, AuditContent, AuditEntry, AuditQuery } from '../types';
+import { MemoryAuditBackend } from './backends/MemoryAuditBackend';
+import { FileAuditBackend } from './backends/FileAuditBackend';
+import ConversationStore from './ConversationStore';
+import { redactPii } from '../services/PiiRedactor';
+import { createLogger } from '../services/Logger';
+
+// =============================================================================
+// AUDIT LOG - Append-only record of safety decisions
+// One entry per turn: mode and why, risk level, safety flags, semantic and
+// trajectory input, response validation, and the rule pack / prompt versions.
+// Entries never contain the conversation or user ID, only the conversation's
+// random audit reference, and message content only as a keyed hash
+// (AUDIT_CONTENT=hash) or with PII redacted (AUDIT_CONTENT=redacted).
+// =============================================================================
+
+const log = createLogger('AuditLog');
+
+type AuditDecision = Omit<
+  AuditEntry,
+  'id' | 'timestamp' | 'conversationRef' | 'userContent' | 'assistantContent'
+>;
+
+// Longest redacted text kept per message
+const MAX_REDACTED_LENGTH = 1000;
+
+// Environment configuration - read lazily to allow dotenv to load first
+function getBackendType(): string {
+  return process.env.AUDIT_LOG || 'memory';
+}
+
+function getLogPath(): string {
+  return path.resolve(process.env.AUDIT_LOG_PATH || 'data/audit/safety-audit.jsonl');
+}
+
+function getContentMode(): string {
+  return process.env.AUDIT_CONTENT || 'hash';
+}
+
+function getHashSecret(): string | null {
+  return process.env.AUDIT_HASH_SECRET || null;
+}
+
+function createBackend(type: string): AuditBackend {
+  switch (type) {
+    case 'memory':
+      return new MemoryAuditBackend();
+    case 'file':
+      return new FileAuditBackend(getLogPath());
+    default:
+      throw new Error(`Unknown AUDIT_LOG "${type}" (expected memory or file)`);
+  }
+}
+
+class AuditLog {
+  private backend: AuditBackend | null = null;
+  private hashKey: string | null = null;
+
+  /**
+   * Lazy initialization - reads env vars on first use
+   * This allows dotenv to load before we read the config
+   */
+  private ensureInitialized(): AuditBackend {
+    if (this.backend) return this.backend;
+
+    const contentMode = getContentMode();
+    if (contentMode !== 'hash' && contentMode !== 'redacted') {
+      throw new Error(`Unknown AUDIT_CONTENT "${contentMode}" (expected hash or redacted)`);
+    }
+
+    this.hashKey = getHashSecret();
+    if (!this.hashKey) {
+      // Hashes from different runs cannot be compared, but content is never guessable
+      this.hashKey = crypto.randomBytes(32).toString('hex');
+      log.warn('AUDIT_HASH_SECRET not set, using a per-process hash key');
+    }
+
+    this.backend = createBackend(getBackendType());
+    log.info('Using backend', { backend: this.backend.name, contentMode });
+    return this.backend;
+  }
+
+  /**
+   * Append the safety decisions of a turn. Never throws: a failing audit log is
+   * reported, but does not take the chat down with it.
+   */
+  async record(
+    conversationId: string,
+    decision: AuditDecision,
+    content: { userMessage: string; assistantMessage: string }
+  ): Promise<void> {
+    try {
+      const backend = this.ensureInitialized();
+      const conversationRef = await ConversationStore.getAuditRef(conversationId);
+      if (!conversationRef) {
+        log.warn('Conversation is gone, turn not audited');
+        return;
+      }
+
+      await backend.append({
+        id: crypto.randomUUID(),
+        timestamp: new Date().toISOString(),
+        conversationRef,
+        ...decision,
+        userContent: this.protect(content.userMessage),
+        assistantContent: this.protect(content.assistantMessage),
+      });
+    } catch (error) {
+      log.error('Failed to record audit entry', { error });
+    }
+  }
+
+  /**
+   * Newest entries matching every filter set. A conversationId is resolved to its
+   * audit reference; a deleted conversation has none and matches nothing.
+   */
+  async query(filter: AuditQuery & { conversationId?: string }): Promise<AuditEntry[]> {
+    const backend = this.ensureInitialized();
+    const { conversationId, ...query } = filter;
+
+    if (conversationId) {
+      const ref = await ConversationStore.getAuditRef(conversationId);
+      if (!ref || (query.conversationRef && query.conversationRef !== ref)) return [];
+      query.conversationRef = ref;
+    }
+
+    const from = query.from ? Date.parse(query.from) : null;
+    const to = query.to ? Date.parse(query.to) : null;
+
+    return backend.query((entry) => {
+      const time = Date.parse(entry.timestamp);
+      return (
+        (!query.conversationRef || entry.conversationRef === query.conversationRef) &&
+        (from === null || time >= from) &&
+        (to === null || time <= to) &&
+        (!query.flag || entry.safetyFlags.includes(query.flag)) &&
+        (!query.mode || entry.mode === query.mode)
+      );
+    }, query.limit);
+  }
+
+  /**
+   * Content as stored in the log, per AUDIT_CONTENT
+   */
+  private protect(text: string): AuditContent {
+    if (getContentMode() === 'redacted') {
+      return { redacted: redactPii(text).slice(0, MAX_REDACTED_LENGTH) };
+    }
+    return { hash: crypto.createHmac('sha256', this.hashKey!).update(text).digest('hex') };
+  }
+}
+
+export default new AuditLog();
@@ -1,36 +1,376 @@
-import { ChatMessage } from '../types';
+import crypto from 'crypto';
+import path from 'path';
+import {
+  ChatMessage,
+  ConversationBackend,
+  ConversationMeta,
+  ConversationSummary,
+  RiskState,
+  PostCrisisState,
+  StoredConversation,
+} from '../types';
+import { MemoryConversationBackend } from './backends/MemoryConversationBackend';
+import { FileConversationBackend } from './backends/FileConversationBackend';
+import { createLogger } from '../services/Logger';
+
+// =============================================================================
+// CONVERSATION STORE - Short-lived conversation state
+// Conversations (messages plus derived risk state) live in a backend selected by
+// CONVERSATION_STORE (memory | file). Nothing is kept long-term:
+// - Idle TTL: a conversation without activity for CONVERSATION_IDLE_TTL_MS expires
+// - Retention: a conversation older than CONVERSATION_RETENTION_DAYS is hard-deleted,
+//   however active it is
+// - LRU bound: at most CONVERSATION_MAX_CONVERSATIONS are kept; creating one more
+//   evicts the least recently active
+// Expired conversations are removed on access and by a periodic sweep.
+// Messages pushed out of the message window wait in a backlog until
+// ConversationSummarizer folds them into the conversation's rolling summary.
+// =============================================================================
+
+const log = createLogger('ConversationStore');
 
 const MAX_MESSAGES_PER_CONVERSATION = 30;
 
+// Bounds the backlog while summaries cannot be generated (LLM down, summary rejected)
+const MAX_SUMMARY_BACKLOG = 30;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Environment configuration - read lazily to allow dotenv to load first
+function getBackendType(): string {
+  return process.env.CONVERSATION_STORE || 'memory';
+}
+
+function getStoreDir(): string {
+  return path.resolve(process.env.CONVERSATION_STORE_DIR || 'data/conversations');
+}
+
+function getIdleTtlMs(): number {
+  return parseInt(process.env.CONVERSATION_IDLE_TTL_MS || String(DAY_MS), 10);
+}
+
+function getRetentionMs(): number {
+  return parseFloat(process.env.CONVERSATION_RETENTION_DAYS || '7') * DAY_MS;
+}
+
+function getMaxConversations(): number {
+  return parseInt(process.env.CONVERSATION_MAX_CONVERSATIONS || '10000', 10);
+}
+
+function getSweepIntervalMs(): number {
+  return parseInt(process.env.CONVERSATION_SWEEP_INTERVAL_MS || '60000', 10);
+}
+
+function createBackend(type: string): ConversationBackend {
+  switch (type) {
+    case 'memory':
+      return new MemoryConversationBackend();
+    case 'file':
+      return new FileConversationBackend(getStoreDir());
+    default:
+      throw new Error(`Unknown CONVERSATION_STORE "${type}" (expected memory or file)`);
+  }
+}
+
+function messageKey(message: ChatMessage): string {
+  return `${message.role}|${message.timestamp}|${message.content}`;
+}
+
 class ConversationStore {
-  private store: Map<string, ChatMessage[]> = new Map();
+  private backend: ConversationBackend | null = null;
+  private sweepTimer: NodeJS.Timeout | null = null;
+  // Tail of the pending operations per conversation; read-modify-write must not interleave
+  private locks: Map<string, Promise<unknown>> = new Map();
+
+  /**
+   * Lazy initialization - reads env vars on first use
+   * This allows dotenv to load before we read the config
+   */
+  private ensureInitialized(): ConversationBackend {
+    if (this.backend) return this.backend;
+
+    this.backend = createBackend(getBackendType());
+    log.info('Using backend', { backend: this.backend.name });
+
+    // Clean up right away (a file store may hold data from before a restart), then periodically
+    const runSweep = () =>
+      this.sweep().catch((error) => log.error('Sweep failed', { error }));
+    runSweep();
+    this.sweepTimer = setInterval(runSweep, getSweepIntervalMs());
+    // Do not keep scripts alive just for the sweep
+    this.sweepTimer.unref();
+
+    return this.backend;
+  }
+
+  /**
+   * Create an empty conversation if it does not exist yet, and return its owner.
+   * The owner is only recorded at creation; an existing conversation keeps its owner,
+   * so comparing the result with the caller is an atomic ownership check.
+   */
+  async ensureConversation(conversationId: string, ownerId?: string): Promise<string | undefined> {
+    const backend = this.ensureInitialized();
+
+    const { owner, created } = await this.withLock(conversationId, async () => {
+      const existing = await this.loadUnlocked(conversationId);
+      if (existing) return { owner: existing.ownerId, created: false };
+
+      const now = new Date().toISOString();
+      await backend.save({
+        conversationId,
+        ownerId,
+        messages: [],
+        auditRef: crypto.randomUUID(),
+        createdAt: now,
+        lastActivityAt: now,
+      });
+      return { owner: ownerId, created: true };
+    });
+
+    if (created) {
+      await this.evictOverflow(conversationId);
+    }
+    return owner;
+  }
+
+  /**
+   * Full stored conversation (messages, owner, derived state), or null if unknown or expired
+   */
+  async getConversation(conversationId: string): Promise<StoredConversation | null> {
+    return this.load(conversationId);
+  }
 
   async getRecent(conversationId: string, limit: number): Promise<ChatMessage[]> {
-    const messages = this.store.get(conversationId) || [];
-    return messages.slice(-limit);
+    const conversation = await this.load(conversationId);
+    return conversation ? conversation.messages.slice(-limit) : [];
   }
 
   async append(conversationId: string, message: ChatMessage): Promise<void> {
-    const messages = this.store.get(conversationId) || [];
-    messages.push(message);
+    await this.update(conversationId, (conversation) => {
+      conversation.messages.push(message);
+
+      // Cap to MAX_MESSAGES_PER_CONVERSATION; what falls out waits to be summarized
+      if (conversation.messages.length > MAX_MESSAGES_PER_CONVERSATION) {
+        const aged = conversation.messages.splice(
+          0,
+          conversation.messages.length - MAX_MESSAGES_PER_CONVERSATION
+        );
+        const backlog = [...(conversation.summaryBacklog ?? []), ...aged];
+        if (backlog.length > MAX_SUMMARY_BACKLOG) {
+          log.warn('Summary backlog full, dropping unsummarized messages', {
+            dropped: backlog.length - MAX_SUMMARY_BACKLOG,
+          });
+          backlog.splice(0, backlog.length - MAX_SUMMARY_BACKLOG);
+        }
+        conversation.summaryBacklog = backlog;
+      }
+    });
+  }
+
+  /**
+   * Replace the rolling summary and remove the messages it now covers from the backlog.
+   * Does not count as activity, and does nothing (returns false) if the conversation
+   * has been deleted or has expired meanwhile.
+   */
+  async setSummary(
+    conversationId: string,
+    summary: ConversationSummary,
+    summarized: ChatMessage[]
+  ): Promise<boolean> {
+    const backend = this.ensureInitialized();
+
+    return this.withLock(conversationId, async () => {
+      const conversation = await this.loadUnlocked(conversationId);
+      if (!conversation) return false;
+
+      const covered = new Set(summarized.map(messageKey));
+      conversation.summary = summary;
+      conversation.summaryBacklog = (conversation.summaryBacklog ?? []).filter(
+        (message) => !covered.has(messageKey(message))
+      );
+      await backend.save(conversation);
+      return true;
+    });
+  }
+
+  async getRiskState(conversationId: string): Promise<RiskState | null> {
+    const conversation = await this.load(conversationId);
+    return conversation?.riskState ?? null;
+  }
+
+  async setRiskState(conversationId: string, state: RiskState): Promise<void> {
+    await this.update(conversationId, (conversation) => {
+      conversation.riskState = state;
+    });
+  }
+
+  async getPostCrisisState(conversationId: string): Promise<PostCrisisState | null> {
+    const conversation = await this.load(conversationId);
+    return conversation?.postCrisis ?? null;
+  }
+
+  async setPostCrisisState(conversationId: string, state: PostCrisisState): Promise<void> {
+    await this.update(conversationId, (conversation) => {
+      conversation.postCrisis = state;
+    });
+  }
+
+  /**
+   * Reference that identifies the conversation in the safety audit log, or null if the
+   * conversation is unknown. Deleting the conversation deletes the reference, which
+   * leaves its audit entries pseudonymous.
+   */
+  async getAuditRef(conversationId: string): Promise<string | null> {
+    const backend = this.ensureInitialized();
 
-    // Cap to MAX_MESSAGES_PER_CONVERSATION
-    if (messages.length > MAX_MESSAGES_PER_CONVERSATION) {
-      messages.splice(0, messages.length - MAX_MESSAGES_PER_CONVERSATION);
+    return this.withLock(conversationId, async () => {
+      const conversation = await this.loadUnlocked(conversationId);
+      if (!conversation) return null;
+
+      // Conversations stored before audit references existed get one on first use
+      if (!conversation.auditRef) {
+        conversation.auditRef = crypto.randomUUID();
+        await backend.save(conversation);
+      }
+      return conversation.auditRef;
+    });
+  }
+
+  /**
+   * Hard-delete a conversation and everything derived from it (risk state, summary,
+   * audit reference and any other per-conversation state is stored in the same record)
+   */
+  async delete(conversationId: string): Promise<boolean> {
+    const backend = this.ensureInitialized();
+    return this.withLock(conversationId, () => backend.delete(conversationId));
+  }
+
+  /**
+   * Delete every conversation past its idle TTL or retention age.
+   * Returns the number of conversations deleted.
+   */
+  async sweep(): Promise<number> {
+    const backend = this.ensureInitialized();
+    const now = Date.now();
+    let swept = 0;
+
+    const candidates = (await backend.listMeta()).filter((meta) => this.isExpired(meta, now));
+    for (const { conversationId } of candidates) {
+      // Re-check under the lock: the conversation may have been written since it was listed
+      const deleted = await this.withLock(conversationId, async () => {
+        const conversation = await backend.load(conversationId);
+        return conversation !== null && this.isExpired(conversation, Date.now())
+          ? backend.delete(conversationId)
+          : false;
+      });
+      if (deleted) swept++;
     }
 
-    this.store.set(conversationId, messages);
+    if (swept > 0) {
+      log.info('Swept expired conversations', { count: swept });
+    }
+    return swept;
   }
 
   // For testing/debugging
-  clear(conversationId?: string): void {
+  async clear(conversationId?: string): Promise<void> {
+    const backend = this.ensureInitialized();
     if (conversationId) {
-      this.store.delete(conversationId);
+      await this.delete(conversationId);
     } else {
-      this.store.clear();
+      await backend.clear();
+    }
+  }
+
+  private async load(conversationId: string): Promise<StoredConversation | null> {
+    return this.withLock(conversationId, () => this.loadUnlocked(conversationId));
+  }
+
+  /**
+   * Load a conversation, deleting it instead if it has expired.
+   * Callers must hold the conversation's lock.
+   */
+  private async loadUnlocked(conversationId: string): Promise<StoredConversation | null> {
+    const backend = this.ensureInitialized();
+    const conversation = await backend.load(conversationId);
+    if (!conversation) return null;
+
+    if (this.isExpired(conversation, Date.now())) {
+      await backend.delete(conversationId);
+      return null;
+    }
+    return conversation;
+  }
+
+  /**
+   * Read-modify-write a conversation and record the activity.
+   * Does nothing if the conversation is unknown: only ensureConversation creates
+   * conversations (with their owner), so a turn still running when its conversation
+   * is deleted, expires or is evicted cannot bring it back without one.
+   */
+  private async update(
+    conversationId: string,
+    mutate: (conversation: StoredConversation) => void
+  ): Promise<void> {
+    const backend = this.ensureInitialized();
+
+    await this.withLock(conversationId, async () => {
+      const conversation = await this.loadUnlocked(conversationId);
+      if (!conversation) {
+        log.debug('Skipped write to missing conversation', { conversationId });
+        return;
+      }
+
+      mutate(conversation);
+      conversation.lastActivityAt = new Date().toISOString();
+      await backend.save(conversation);
+    });
+  }
+
+  /**
+   * Enforce the LRU bound by deleting the least recently active conversations
+   */
+  private async evictOverflow(keepConversationId: string): Promise<void> {
+    const backend = this.ensureInitialized();
+    const all = await backend.listMeta();
+    const overflow = all.length - getMaxConversations();
+    if (overflow <= 0) return;
+
+    const victims = all
+      .filter((meta) => meta.conversationId !== keepConversationId)
+      .sort((a, b) => a.lastActivityAt.localeCompare(b.lastActivityAt))
+      .slice(0, overflow);
+
+    for (const { conversationId } of victims) {
+      await this.delete(conversationId);
+    }
+    log.info('Evicted least recently active conversations', { count: victims.length });
+  }
+
+  private isExpired(meta: ConversationMeta, now: number): boolean {
+    return (
+      now - Date.parse(meta.lastActivityAt) > getIdleTtlMs() ||
+      now - Date.parse(meta.createdAt) > getRetentionMs()
+    );
+  }
+
+  /**
+   * Run fn after every pending operation on the same conversation
+   */
+  private async withLock<T>(conversationId: string, fn: () => Promise<T>): Promise<T> {
+    const previous = this.locks.get(conversationId) ?? Promise.resolve();
+    const current = previous.catch(() => undefined).then(fn);
+    this.locks.set(conversationId, current);
+
+    try {
+      return await current;
+    } finally {
+      // Last one out removes the entry so the map does not grow
+      if (this.locks.get(conversationId) === current) {
+        this.locks.delete(conversationId);
+      }
     }
   }
 }
 
 export default new ConversationStore();
-
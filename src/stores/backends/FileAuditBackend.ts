@@ -0,0 +1,61 @@
+import fs from 'fs';
+import path from 'path';
+import readline from 'readline';
+import { AuditBackend, AuditEntry } from '../../types';
+import { createLogger } from '../../services/Logger';
+
+const log = createLogger('FileAuditBackend');
+
+/**
+ * Append-only JSON Lines file, one entry per line. Appends are serialized so
+ * lines never interleave; queries scan the whole file (fine for review use).
+ */
+export class FileAuditBackend implements AuditBackend {
+  readonly name = 'file';
+  // Tail of the pending appends
+  private writing: Promise<void> = Promise.resolve();
+
+  constructor(private readonly file: string) {
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+  }
+
+  async append(entry: AuditEntry): Promise<void> {
+    const line = `${JSON.stringify(entry)}\n`;
+    const current = this.writing
+      .catch(() => undefined)
+      .then(() => fs.promises.appendFile(this.file, line, { mode: 0o600 }));
+    this.writing = current;
+    await current;
+  }
+
+  async query(matches: (entry: AuditEntry) => boolean, limit: number): Promise<AuditEntry[]> {
+    if (!fs.existsSync(this.file)) return [];
+
+    // Keep the newest `limit` matches while reading oldest to newest
+    const results: AuditEntry[] = [];
+    const lines = readline.createInterface({
+      input: fs.createReadStream(this.file, 'utf8'),
+      crlfDelay: Infinity,
+    });
+
+    for await (const line of lines) {
+      if (!line.trim()) continue;
+
+      let entry: AuditEntry;
+      try {
+        entry = JSON.parse(line) as AuditEntry;
+      } catch {
+        // A line cut short by a crash; the rest of the log is still valid
+        log.warn('Skipping unreadable audit line');
+        continue;
+      }
+
+      if (matches(entry)) {
+        results.push(entry);
+        if (results.length > limit) results.shift();
+      }
+    }
+
+    return results.reverse();
+  }
+}
@@ -0,0 +1,96 @@
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import { ConversationBackend, ConversationMeta, StoredConversation } from '../../types';
+import { createLogger } from '../../services/Logger';
+
+const log = createLogger('FileConversationBackend');
+
+/**
+ * One JSON file per conversation. File names are a hash of the conversation ID,
+ * so client-supplied IDs never become paths. Writes go to a temp file first and
+ * are renamed into place, so a crash never leaves a half-written conversation.
+ * Only metadata is kept in memory.
+ */
+export class FileConversationBackend implements ConversationBackend {
+  readonly name = 'file';
+  private index: Map<string, ConversationMeta> = new Map();
+
+  constructor(private readonly dir: string) {
+    fs.mkdirSync(dir, { recursive: true });
+    this.loadIndex();
+  }
+
+  async load(conversationId: string): Promise<StoredConversation | null> {
+    if (!this.index.has(conversationId)) return null;
+
+    try {
+      const raw = await fs.promises.readFile(this.fileFor(conversationId), 'utf8');
+      return JSON.parse(raw) as StoredConversation;
+    } catch (error) {
+      log.warn('Could not read conversation, dropping it', { error });
+      this.index.delete(conversationId);
+      return null;
+    }
+  }
+
+  async save(conversation: StoredConversation): Promise<void> {
+    const file = this.fileFor(conversation.conversationId);
+    const tmpFile = `${file}.${process.pid}.${crypto.randomUUID()}.tmp`;
+
+    await fs.promises.writeFile(tmpFile, JSON.stringify(conversation), { mode: 0o600 });
+    await fs.promises.rename(tmpFile, file);
+
+    this.index.set(conversation.conversationId, {
+      conversationId: conversation.conversationId,
+      createdAt: conversation.createdAt,
+      lastActivityAt: conversation.lastActivityAt,
+    });
+  }
+
+  async delete(conversationId: string): Promise<boolean> {
+    const existed = this.index.delete(conversationId);
+    await fs.promises.rm(this.fileFor(conversationId), { force: true });
+    return existed;
+  }
+
+  async listMeta(): Promise<ConversationMeta[]> {
+    return [...this.index.values()];
+  }
+
+  async clear(): Promise<void> {
+    await Promise.all([...this.index.keys()].map((id) => this.delete(id)));
+  }
+
+  private fileFor(conversationId: string): string {
+    const hash = crypto.createHash('sha256').update(conversationId).digest('hex');
+    return path.join(this.dir, `${hash}.json`);
+  }
+
+  /**
+   * Rebuild the metadata index from disk (startup only)
+   */
+  private loadIndex(): void {
+    for (const name of fs.readdirSync(this.dir)) {
+      const file = path.join(this.dir, name);
+
+      // Leftovers from writes interrupted by a crash
+      if (name.endsWith('.tmp')) {
+        fs.rmSync(file, { force: true });
+        continue;
+      }
+      if (!name.endsWith('.json')) continue;
+
+      try {
+        const { conversationId, createdAt, lastActivityAt } = JSON.parse(
+          fs.readFileSync(file, 'utf8')
+        ) as StoredConversation;
+        this.index.set(conversationId, { conversationId, createdAt, lastActivityAt });
+      } catch {
+        log.warn('Skipping unreadable file', { file: name });
+      }
+    }
+
+    log.info('Loaded conversations', { count: this.index.size, dir: this.dir });
+  }
+}
@@ -0,0 +1,29 @@
+import { AuditBackend, AuditEntry } from '../../types';
+
+// Keeps a development server's memory bounded; the file backend has no limit
+const MAX_ENTRIES = 10000;
+
+/**
+ * Process-local audit log; everything is lost on restart
+ */
+export class MemoryAuditBackend implements AuditBackend {
+  readonly name = 'memory';
+  private entries: AuditEntry[] = [];
+
+  async append(entry: AuditEntry): Promise<void> {
+    this.entries.push(structuredClone(entry));
+    if (this.entries.length > MAX_ENTRIES) {
+      this.entries.splice(0, this.entries.length - MAX_ENTRIES);
+    }
+  }
+
+  async query(matches: (entry: AuditEntry) => boolean, limit: number): Promise<AuditEntry[]> {
+    const results: AuditEntry[] = [];
+    for (let i = this.entries.length - 1; i >= 0 && results.length < limit; i--) {
+      if (matches(this.entries[i])) {
+        results.push(structuredClone(this.entries[i]));
+      }
+    }
+    return results;
+  }
+}
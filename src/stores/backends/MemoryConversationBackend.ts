@@ -0,0 +1,35 @@
+import { ConversationBackend, ConversationMeta, StoredConversation } from '../../types';
+
+/**
+ * Process-local storage; everything is lost on restart
+ */
+export class MemoryConversationBackend implements ConversationBackend {
+  readonly name = 'memory';
+  private conversations: Map<string, StoredConversation> = new Map();
+
+  // Copies keep callers from mutating stored state without a save
+  async load(conversationId: string): Promise<StoredConversation | null> {
+    const conversation = this.conversations.get(conversationId);
+    return conversation ? structuredClone(conversation) : null;
+  }
+
+  async save(conversation: StoredConversation): Promise<void> {
+    this.conversations.set(conversation.conversationId, structuredClone(conversation));
+  }
+
+  async delete(conversationId: string): Promise<boolean> {
+    return this.conversations.delete(conversationId);
+  }
+
+  async listMeta(): Promise<ConversationMeta[]> {
+    return [...this.conversations.values()].map(({ conversationId, createdAt, lastActivityAt }) => ({
+      conversationId,
+      createdAt,
+      lastActivityAt,
+    }));
+  }
+
+  async clear(): Promise<void> {
+    this.conversations.clear();
+  }
+}
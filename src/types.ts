@@ -6,17 +6,149 @@ export type ChatMessage = {
   role: ChatRole;
   content: string;
   timestamp: string;
+  // Mode the reply was generated in (assistant messages)
+  mode?: Mode;
+};
+
+// Conversation-level risk state (see RiskTrajectoryTracker)
+export type RiskState = {
+  // Decayed sum of per-turn risk points
+  cumulativeScore: number;
+  turnCount: number;
+  // turnCount at the most recent CRISIS turn
+  lastCrisisTurn: number | null;
+  updatedAt: string;
+};
+
+// Rolling LLM summary of the messages that have left a conversation's message window
+export type ConversationSummary = {
+  text: string;
+  // Number of messages folded into the summary so far
+  summarizedMessages: number;
+  updatedAt: string;
+};
+
+// Post-crisis follow-up: ACTIVE after a CRISIS turn until the user has said they are safe
+// and have reached out to someone (RESOLVED), or it runs out of turns or time (TIMED_OUT)
+export type PostCrisisStatus = 'ACTIVE' | 'RESOLVED' | 'TIMED_OUT';
+
+export type PostCrisisState = {
+  status: PostCrisisStatus;
+  // The user named their country (crisis lines can be specific)
+  countryShared: boolean;
+  safetyConfirmed: boolean;
+  reachedOut: boolean;
+  // Check-in turns since the most recent CRISIS turn
+  checkInTurns: number;
+  // Time of the most recent CRISIS turn
+  startedAt: string;
+  updatedAt: string;
+};
+
+// A conversation as persisted by a ConversationBackend
+export type StoredConversation = {
+  conversationId: string;
+  // User who started the conversation; unset for anonymous conversations
+  ownerId?: string;
+  messages: ChatMessage[];
+  riskState?: RiskState;
+  postCrisis?: PostCrisisState;
+  summary?: ConversationSummary;
+  // Messages that left the window and are not in the summary yet
+  summaryBacklog?: ChatMessage[];
+  // Random reference used in the safety audit log instead of the conversation ID
+  auditRef?: string;
+  createdAt: string;
+  lastActivityAt: string;
+};
+
+export type ConversationMeta = Pick<
+  StoredConversation,
+  'conversationId' | 'createdAt' | 'lastActivityAt'
+>;
+
+// Portable export of a conversation (GET /v1/chat/conversations/:id/export)
+export type ConversationExport = {
+  format: 'conversation-export';
+  formatVersion: 1;
+  exportedAt: string;
+  conversationId: string;
+  createdAt: string;
+  lastActivityAt: string;
+  messages: ChatMessage[];
+  summary?: ConversationSummary;
+};
+
+// Storage behind ConversationStore; retention and eviction policy live in the store
+export type ConversationBackend = {
+  readonly name: string;
+  load(conversationId: string): Promise<StoredConversation | null>;
+  save(conversation: StoredConversation): Promise<void>;
+  delete(conversationId: string): Promise<boolean>;
+  // Metadata of every stored conversation, for expiry and eviction sweeps
+  listMeta(): Promise<ConversationMeta[]>;
+  clear(): Promise<void>;
 };
 
 export type RiskLevel = 'LOW' | 'MEDIUM' | 'HIGH';
 export type Intent = 'MENTAL_HEALTH' | 'GENERAL' | 'UNKNOWN';
 
+// Language detected on the incoming message ('und' when undetermined)
+export type LanguageDetection = {
+  code: string;
+  supported: boolean;
+  confidence: number;
+};
+
+// Compiled risk analysis lexicon for one locale (InputAnalyzer, from the rule pack)
+export type RiskLexicon = {
+  explicitCrisisKeywords: string[];
+  crisisPatterns: RegExp[];
+  softCrisisSignals: { pattern: string | RegExp; weight: number }[];
+  mentalHealthKeywords: string[];
+};
+
+// Unsafe response patterns for one locale (ResponseValidator, from the rule pack)
+export type ResponsePatterns = {
+  diagnosis: string[];
+  medication: string[];
+  guarantee: string[];
+};
+
+// Per-locale user-facing safety templates
+export type LocaleTemplates = {
+  languageName: string;
+  crisisSafeMessage: string;
+  safeFallback: Record<Mode, string>;
+  // Placeholders: {country}, {emergency}, {lines}
+  crisisResourcesKnown: string;
+  crisisResourcesUnknown: string;
+  // Safe fallback for post-crisis check-in turns
+  postCrisisCheckIn: string;
+};
+
+export type LocaleBundle = {
+  code: string;
+  // Frequent function words and distinctive characters used for language detection
+  stopwords: string[];
+  distinctiveChars?: RegExp;
+  templates: LocaleTemplates;
+};
+
+// Scope of an explicit crisis mention: only AFFIRMED mentions trigger CRISIS directly
+export type MentionScope = 'AFFIRMED' | 'NEGATED' | 'PAST' | 'HYPOTHETICAL';
+
 export type InputAnalysis = {
   intent: Intent;
   riskLevel: RiskLevel;
   safetyFlags: string[];
   suggestedMode: Mode;
   modeReason: string;
+  // Weighted soft-signal score (set once Layer 3 has run)
+  softSignalScore?: number;
+  language?: LanguageDetection;
+  // Rule pack the analysis ran against ("<id>@<version>")
+  rulePackVersion?: string;
   // Semantic classifier fields (optional)
   rationale?: string;
   semanticUsed?: boolean;
@@ -24,10 +156,52 @@ export type InputAnalysis = {
   semanticModeReason?: string;
 };
 
+export type RiskTrend = 'RISING' | 'STABLE' | 'FALLING';
+
+// Conversation-level risk, accumulated across turns
+export type RiskTrajectory = {
+  trend: RiskTrend;
+  cumulativeScore: number;
+  turnsSinceCrisis: number | null;
+  crisisCooldownActive: boolean;
+};
+
+// Where the user's country was resolved from, most explicit first
+export type CountrySource = 'USER_MENTION' | 'LOCALE' | 'TIMEZONE';
+
+export type CrisisResourceInfo = {
+  countryCode: string | null;
+  countrySource: CountrySource | null;
+  directoryVersion: string;
+};
+
+// Named, versioned system prompt with per-mode additions (src/prompts)
+export type PromptTemplate = {
+  name: string;
+  version: string;
+  system: string;
+  modeAdditions: Record<Mode, string>;
+};
+
+// How much conversation history made it into a prompt's token budget
+export type ContextWindow = {
+  // History messages (user and assistant) included before the current message
+  messagesIncluded: number;
+  // History messages that were available
+  messagesAvailable: number;
+  // Whether the oldest included message was shortened to fit
+  truncated: boolean;
+  // Whether the rolling summary of older messages was included
+  summaryIncluded: boolean;
+  estimatedTokens: number;
+  tokenBudget: number;
+};
+
 export type BuiltPrompt = {
   promptVersion: string;
   system: string;
   messages: { role: 'system' | 'user' | 'assistant'; content: string }[];
+  context: ContextWindow;
 };
 
 export type ValidationResult = {
@@ -37,16 +211,63 @@ export type ValidationResult = {
   reason?: string;
 };
 
+// How a reply that passes validation was obtained:
+// passed (first attempt), repaired (a regenerated attempt), fallback (attempts ran out,
+// safe fallback sent) or unavailable (no LLM response at all)
+export type RepairOutcome = 'passed' | 'repaired' | 'fallback' | 'unavailable';
+
+export type ResponseRepair = {
+  // Generations made for the turn, including the first
+  attempts: number;
+  outcome: RepairOutcome;
+};
+
+export type StreamValidationResult = {
+  validation: ValidationResult;
+  // Number of leading characters of the accumulated text that are safe to send
+  releasableLength: number;
+};
+
 export type LLMRequest = {
   messages: { role: 'system' | 'user' | 'assistant'; content: string }[];
   temperature?: number;
   maxTokens?: number;
+  // Set by LLMClient to abort calls that exceed the timeout
+  signal?: AbortSignal;
+  // Prompt template version of chat requests (metrics label, not sent to the provider)
+  promptVersion?: string;
 };
 
 export type LLMResponse = {
   text: string;
 };
 
+// LLMClient result: the completion and the provider that produced it, which is a
+// fallback when the primary failed
+export type LLMClientResponse = LLMResponse & {
+  provider: string;
+};
+
+// Tasks that can be routed to different providers/models
+export type LLMTask = 'chat' | 'classifier' | 'summary' | 'judge';
+
+// A configured LLM backend (one provider type + model)
+export type LLMProvider = {
+  // Provider type as configured, e.g. "openai", "anthropic", "stub"
+  readonly name: string;
+  readonly model: string;
+  generate(req: LLMRequest): Promise<LLMResponse>;
+  // Text deltas; breaking out of the iteration aborts the underlying request
+  generateStream(req: LLMRequest): AsyncGenerator<string>;
+};
+
+// Authenticated caller, set by the auth middleware
+export type AuthContext = {
+  userId: string;
+  // Authenticator that accepted the request, e.g. "jwt" or "apikey"
+  method: string;
+};
+
 export type ChatRequest = {
   conversationId: string;
   userId?: string;
@@ -55,6 +276,8 @@ export type ChatRequest = {
     platform?: 'ios' | 'android';
     appVersion?: string;
     timezone?: string;
+    // BCP 47 tag, e.g. "en-GB" - region is used to pick crisis resources
+    locale?: string;
   };
 };
 
@@ -66,10 +289,110 @@ export type ChatResponse = {
     latencyMs: number;
     safetyFlags: string[];
     promptVersion: string;
+    rulePackVersion: string;
     llmProvider: string;
     modeReason: string;
     riskLevel?: RiskLevel;
     semanticUsed?: boolean;
+    riskTrajectory?: RiskTrajectory;
+    crisisResources?: CrisisResourceInfo;
+    language?: LanguageDetection;
+    context?: ContextWindow;
+    repair?: ResponseRepair;
+    postCrisis?: PostCrisisState;
   };
 };
 
+// GET /v1/chat/history
+export type ChatHistoryResponse = {
+  conversationId: string;
+  messages: ChatMessage[];
+  count: number;
+};
+
+// Machine-readable error codes; every error body carries one
+export type ApiErrorCode =
+  | 'INVALID_JSON'
+  | 'VALIDATION_FAILED'
+  | 'UNAUTHORIZED'
+  | 'FORBIDDEN'
+  | 'NOT_FOUND'
+  | 'PAYLOAD_TOO_LARGE'
+  | 'RATE_LIMITED'
+  | 'INTERNAL_ERROR'
+  | 'STREAM_INTERRUPTED';
+
+// One schema violation in a request (or response) body, e.g. { path: "client.platform", ... }
+export type ValidationIssue = {
+  path: string;
+  message: string;
+};
+
+// Body of every error response and of the stream's error event
+export type ErrorResponse = {
+  // HTTP status text, e.g. "Bad Request"
+  error: string;
+  code: ApiErrorCode;
+  message: string;
+  // Schema violations (VALIDATION_FAILED)
+  details?: ValidationIssue[];
+  // Seconds until another message is accepted (RATE_LIMITED)
+  retryAfterSeconds?: number;
+};
+
+// Server-Sent Events emitted by POST /v1/chat/stream
+export type ChatStreamEvent =
+  | { event: 'token'; data: { text: string } }
+  | { event: 'replace'; data: { text: string } }
+  | { event: 'done'; data: ChatResponse }
+  | { event: 'error'; data: ErrorResponse };
+
+// Message content as kept in the audit log: a keyed hash, or the text with PII redacted
+export type AuditContent = { hash: string } | { redacted: string };
+
+// One safety-relevant decision record per turn (append-only audit log)
+export type AuditEntry = {
+  id: string;
+  timestamp: string;
+  // StoredConversation.auditRef; unlinkable to the conversation once it is deleted
+  conversationRef: string;
+  mode: Mode;
+  modeReason: string;
+  riskLevel: RiskLevel;
+  safetyFlags: string[];
+  semantic: { used: boolean; riskLevel?: RiskLevel; modeReason?: string };
+  trajectory: { trend: RiskTrend; cumulativeScore: number; crisisCooldownActive: boolean };
+  // Response validation; null when no LLM response was generated (CRISIS template)
+  validation: { isSafe: boolean; flags: string[]; reason?: string } | null;
+  // Regeneration after validator rejections; absent for the CRISIS template
+  repair?: ResponseRepair;
+  llmProvider: string;
+  rulePackVersion: string;
+  promptVersion: string;
+  userContent: AuditContent;
+  assistantContent: AuditContent;
+};
+
+export type AuditQuery = {
+  conversationRef?: string;
+  // ISO timestamps, inclusive
+  from?: string;
+  to?: string;
+  flag?: string;
+  mode?: Mode;
+  limit: number;
+};
+
+// GET /v1/admin/audit
+export type AuditQueryResponse = {
+  entries: AuditEntry[];
+  count: number;
+};
+
+// Storage behind AuditLog: entries are only ever appended
+export type AuditBackend = {
+  readonly name: string;
+  append(entry: AuditEntry): Promise<void>;
+  // Newest matching entries first, at most limit
+  query(matches: (entry: AuditEntry) => boolean, limit: number): Promise<AuditEntry[]>;
+};
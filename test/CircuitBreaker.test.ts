@@ -0,0 +1,60 @@
+import { before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { CircuitBreaker } from '../src/llm/CircuitBreaker';
+
+/**
+ * Breaker that opens after two failures; with no cooldown the trial call is allowed right away
+ */
+function createBreaker(cooldownMs = 0): CircuitBreaker {
+  return new CircuitBreaker('test', { failureThreshold: 2, cooldownMs });
+}
+
+describe('CircuitBreaker', () => {
+  before(() => {
+    process.env.LOG_LEVEL = 'error';
+  });
+
+  it('opens after failureThreshold consecutive failures', () => {
+    const breaker = createBreaker(60_000);
+    breaker.recordFailure();
+    assert.equal(breaker.getState(), 'CLOSED');
+    assert.equal(breaker.canAttempt(), true);
+
+    breaker.recordFailure();
+    assert.equal(breaker.getState(), 'OPEN');
+    assert.equal(breaker.canAttempt(), false);
+  });
+
+  it('resets the failure count on success', () => {
+    const breaker = createBreaker(60_000);
+    breaker.recordFailure();
+    breaker.recordSuccess();
+    breaker.recordFailure();
+    assert.equal(breaker.getState(), 'CLOSED');
+  });
+
+  it('allows a single trial call after the cooldown', () => {
+    const breaker = createBreaker();
+    breaker.recordFailure();
+    breaker.recordFailure();
+
+    assert.equal(breaker.canAttempt(), true);
+    assert.equal(breaker.getState(), 'HALF_OPEN');
+    assert.equal(breaker.canAttempt(), false);
+  });
+
+  it('closes when the trial call succeeds and re-opens when it fails', () => {
+    const breaker = createBreaker();
+    breaker.recordFailure();
+    breaker.recordFailure();
+    breaker.canAttempt();
+    breaker.recordSuccess();
+    assert.equal(breaker.getState(), 'CLOSED');
+
+    breaker.recordFailure();
+    breaker.recordFailure();
+    breaker.canAttempt();
+    breaker.recordFailure();
+    assert.equal(breaker.getState(), 'OPEN');
+  });
+});
@@ -0,0 +1,61 @@
+import { before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import ConversationStore from '../src/stores/ConversationStore';
+import ChatOrchestrator from '../src/orchestrator/ChatOrchestrator';
+import ProviderRegistry from '../src/llm/ProviderRegistry';
+import { LLMProvider } from '../src/types';
+
+const CONVERSATION_ID = 'delete-during-turn';
+const OWNER = 'alice';
+
+/**
+ * Provider that deletes the conversation while the chat reply is being generated
+ */
+function deletingProvider(): LLMProvider {
+  const reply = async () => {
+    await ConversationStore.delete(CONVERSATION_ID);
+    return 'That sounds like a lot to handle. What has been the hardest part?';
+  };
+  return {
+    name: 'deleting',
+    model: 'test',
+    generate: async () => ({ text: await reply() }),
+    async *generateStream() {
+      yield await reply();
+    },
+  };
+}
+
+describe('ConversationStore', () => {
+  before(() => {
+    process.env.CONVERSATION_STORE = 'memory';
+    process.env.AUDIT_LOG = 'memory';
+    process.env.LOG_LEVEL = 'error';
+    process.env.LLM_PROVIDER = 'deleting';
+    ProviderRegistry.register('deleting', deletingProvider);
+  });
+
+  it('does not recreate a conversation deleted during a turn', async () => {
+    await ChatOrchestrator.handleUserMessage({
+      conversationId: CONVERSATION_ID,
+      userId: OWNER,
+      userMessage: 'Work has been stressful this week',
+    });
+
+    assert.equal(await ConversationStore.getConversation(CONVERSATION_ID), null);
+
+    // The owner can start over instead of hitting an ownerless record
+    const owner = await ConversationStore.ensureConversation(CONVERSATION_ID, OWNER);
+    assert.equal(owner, OWNER);
+  });
+
+  it('ignores writes to an unknown conversation', async () => {
+    await ConversationStore.append('never-created', {
+      role: 'user',
+      content: 'hello',
+      timestamp: new Date().toISOString(),
+    });
+
+    assert.equal(await ConversationStore.getConversation('never-created'), null);
+  });
+});
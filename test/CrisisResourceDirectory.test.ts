@@ -0,0 +1,38 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import CrisisResourceDirectory from '../src/services/CrisisResourceDirectory';
+
+describe('CrisisResourceDirectory.resolveCountry', () => {
+  it('uses a country the user places themselves in', () => {
+    for (const [text, code] of [
+      ["I'm in Canada right now", 'CA'],
+      ['Canada', 'CA'],
+      ['Ich wohne in Deutschland', 'DE'],
+      ['vivo en España', 'ES'],
+      ['Je suis aux États-Unis', 'US'],
+    ]) {
+      assert.deepEqual(
+        CrisisResourceDirectory.resolveCountry({ userTexts: [text], locale: 'en-GB' }),
+        { countryCode: code, source: 'USER_MENTION' },
+        text
+      );
+    }
+  });
+
+  it('keeps the locale region when a country is only mentioned', () => {
+    for (const text of ['My sister lives in Canada', 'I travelled through South America']) {
+      assert.deepEqual(
+        CrisisResourceDirectory.resolveCountry({ userTexts: [text], locale: 'en-GB' }),
+        { countryCode: 'GB', source: 'LOCALE' },
+        text
+      );
+    }
+  });
+
+  it('falls back to the timezone', () => {
+    assert.deepEqual(
+      CrisisResourceDirectory.resolveCountry({ userTexts: ['hello'], timezone: 'Europe/Berlin' }),
+      { countryCode: 'DE', source: 'TIMEZONE' }
+    );
+  });
+});
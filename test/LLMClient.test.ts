@@ -0,0 +1,140 @@
+import { before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import LLMClient from '../src/llm/LLMClient';
+import ProviderRegistry from '../src/llm/ProviderRegistry';
+import { LLMProvider } from '../src/types';
+
+type CountingProvider = LLMProvider & { calls: number };
+
+const REQUEST = { messages: [{ role: 'user' as const, content: 'hello' }] };
+
+/**
+ * Register a provider type that fails every call with error, or answers if there is none
+ */
+function registerProvider(type: string, error?: Error): CountingProvider {
+  const provider: CountingProvider = {
+    name: type,
+    model: 'test',
+    calls: 0,
+    async generate() {
+      provider.calls++;
+      if (error) throw error;
+      return { text: `reply from ${type}` };
+    },
+    async *generateStream() {
+      provider.calls++;
+      if (error) throw error;
+      yield `reply from ${type}`;
+    },
+  };
+  ProviderRegistry.register(type, () => provider);
+  return provider;
+}
+
+/**
+ * Route chat to primary, then to the fallbacks in order
+ */
+function routeChat(primary: string, ...fallbacks: string[]): void {
+  process.env.LLM_CHAT_PROVIDER = primary;
+  process.env.LLM_CHAT_FALLBACK_PROVIDERS = fallbacks.join(',');
+}
+
+function httpError(status: number): Error {
+  return Object.assign(new Error(`Request failed with status ${status}`), { status });
+}
+
+describe('LLMClient', () => {
+  before(() => {
+    process.env.LOG_LEVEL = 'error';
+    process.env.LLM_MAX_RETRIES = '1';
+    process.env.LLM_RETRY_BASE_DELAY_MS = '1';
+    process.env.LLM_CIRCUIT_FAILURE_THRESHOLD = '2';
+    process.env.LLM_CIRCUIT_COOLDOWN_MS = '60000';
+  });
+
+  const classification: [string, Error, number][] = [
+    ['HTTP 503', httpError(503), 2],
+    ['HTTP 429', httpError(429), 2],
+    ['a timeout', new Error('LLM_TIMEOUT'), 2],
+    ['a dropped connection', new Error('socket hang up'), 2],
+    ['HTTP 400', httpError(400), 1],
+    ['HTTP 401', httpError(401), 1],
+    ['a bad request message', new Error('invalid request: unknown model'), 1],
+  ];
+
+  for (const [label, error, expectedCalls] of classification) {
+    const verb = expectedCalls > 1 ? 'retries' : 'does not retry';
+
+    it(`${verb} ${label}, then falls back`, async () => {
+      const type = `failing-${label}`;
+      const primary = registerProvider(type, error);
+      registerProvider('backup');
+      routeChat(type, 'backup');
+
+      const response = await LLMClient.generate(REQUEST);
+
+      assert.equal(primary.calls, expectedCalls);
+      assert.equal(response.text, 'reply from backup');
+      assert.equal(response.provider, 'backup');
+    });
+  }
+
+  it('reports the primary when it answers', async () => {
+    registerProvider('healthy');
+    routeChat('healthy', 'backup');
+
+    const response = await LLMClient.generate(REQUEST);
+    assert.equal(response.provider, 'healthy');
+  });
+
+  it('falls back when the primary cannot be constructed', async () => {
+    registerProvider('backup');
+    routeChat('not-registered', 'backup');
+
+    const response = await LLMClient.generate(REQUEST);
+    assert.equal(response.provider, 'backup');
+  });
+
+  it('opens the circuit on transient errors only', async () => {
+    const overloaded = registerProvider('overloaded', httpError(503));
+    const rejecting = registerProvider('rejecting', httpError(400));
+    registerProvider('backup');
+
+    routeChat('overloaded', 'backup');
+    await LLMClient.generate(REQUEST);
+    await LLMClient.generate(REQUEST);
+    // Two failed attempts open the circuit, so the second call skips the provider
+    assert.equal(overloaded.calls, 2);
+
+    routeChat('rejecting', 'backup');
+    await LLMClient.generate(REQUEST);
+    await LLMClient.generate(REQUEST);
+    await LLMClient.generate(REQUEST);
+    assert.equal(rejecting.calls, 3);
+  });
+
+  it('rejects with LLM_UNAVAILABLE when every provider fails', async () => {
+    registerProvider('down', httpError(500));
+    routeChat('down', 'not-registered');
+
+    await assert.rejects(LLMClient.generate(REQUEST), /LLM_UNAVAILABLE/);
+  });
+
+  it('reports the provider that answered a stream', async () => {
+    registerProvider('stream-down', httpError(502));
+    registerProvider('backup');
+    routeChat('stream-down', 'backup');
+
+    const providers: string[] = [];
+    let text = '';
+    const stream = LLMClient.generateStream(REQUEST, 'chat', (provider) => {
+      providers.push(provider);
+    });
+    for await (const chunk of stream) {
+      text += chunk;
+    }
+
+    assert.equal(text, 'reply from backup');
+    assert.deepEqual(providers, ['backup']);
+  });
+});
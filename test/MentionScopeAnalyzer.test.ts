@@ -0,0 +1,99 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import MentionScopeAnalyzer from '../src/services/MentionScopeAnalyzer';
+import { MentionScope } from '../src/types';
+
+/**
+ * Scope of the first occurrence of mention in text (both lowercased, as InputAnalyzer does)
+ */
+function scopeOf(text: string, mention: string): MentionScope {
+  const lowerText = text.toLowerCase();
+  const start = lowerText.indexOf(mention);
+  assert.notEqual(start, -1, `"${mention}" not found in "${text}"`);
+  return MentionScopeAnalyzer.classify(lowerText, start, start + mention.length);
+}
+
+describe('MentionScopeAnalyzer.classify', () => {
+  const cases: [text: string, mention: string, scope: MentionScope][] = [
+    // Plain statements
+    ['I want to kill myself', 'kill myself', 'AFFIRMED'],
+    ['I feel suicidal right now', 'suicidal', 'AFFIRMED'],
+
+    // Negation through bridge words
+    ["I'm not suicidal", 'suicidal', 'NEGATED'],
+    ["I don't want to kill myself", 'kill myself', 'NEGATED'],
+    ["No, I don't want to die", 'want to die', 'NEGATED'],
+
+    // Double negation cancels out
+    ['I see no reason not to kill myself', 'kill myself', 'AFFIRMED'],
+    ['there is no reason not to end my life', 'end my life', 'AFFIRMED'],
+    ["not a day goes by that I don't want to die", 'want to die', 'AFFIRMED'],
+    ["I'm not sure I don't want to die", 'want to die', 'AFFIRMED'],
+
+    // Contrastive intent overrides a qualifying cue
+    ["I don't want to kill myself but I might", 'kill myself', 'AFFIRMED'],
+    ["I don't want to kill myself. But I will be fine", 'kill myself', 'NEGATED'],
+
+    // Past scope, unless the behaviour continues
+    ['I had suicidal thoughts before, but not now', 'suicidal', 'PAST'],
+    ['I used to self harm when I was younger', 'self harm', 'PAST'],
+    ['I used to self harm, but I still do sometimes', 'self harm', 'AFFIRMED'],
+
+    // Hypothetical frames; first-person "if i ever" is not one
+    ['In my novel the character wants to kill himself', 'kill himself', 'HYPOTHETICAL'],
+    ["if i ever kill myself it's your fault", 'kill myself', 'AFFIRMED'],
+  ];
+
+  for (const [text, mention, scope] of cases) {
+    it(`"${text}" → ${scope}`, () => {
+      assert.equal(scopeOf(text, mention), scope);
+    });
+  }
+});
+
+describe('MentionScopeAnalyzer.isAsserted', () => {
+  /**
+   * isAsserted for the first occurrence of phrase in the lowercased text
+   */
+  function asserted(text: string, phrase: string): boolean {
+    const lowerText = text.toLowerCase();
+    const start = lowerText.indexOf(phrase);
+    assert.notEqual(start, -1, `"${phrase}" not found in "${text}"`);
+    return MentionScopeAnalyzer.isAsserted(lowerText, start, start + phrase.length);
+  }
+
+  it('accepts plain statements', () => {
+    assert.equal(asserted("Yes, I'm safe", "i'm safe"), true);
+    assert.equal(asserted('I talked to someone today', 'talked to someone'), true);
+  });
+
+  it('rejects hedged or negated statements', () => {
+    assert.equal(asserted("I'm not sure I'm safe", "i'm safe"), false);
+    assert.equal(asserted("I don't know if I'm safe", "i'm safe"), false);
+    assert.equal(asserted("I haven't talked to someone", 'talked to someone'), false);
+  });
+
+  it('rejects clauses with a negative subject or object', () => {
+    assert.equal(asserted('nobody has reached out to me', 'reached out to'), false);
+    assert.equal(asserted('No one is with me', 'is with me'), false);
+    assert.equal(asserted('Ich habe mit niemandem gesprochen', 'gesprochen'), false);
+    assert.equal(asserted('Hablé con nadie', 'hablé con'), false);
+    assert.equal(asserted("Personne ne sait, j'ai appelé", "j'ai appelé"), true);
+    assert.equal(asserted("J'ai parlé à une personne de confiance", "j'ai parlé à"), true);
+  });
+
+  it('rejects statements taken back by a trailing negation', () => {
+    assert.equal(
+      asserted('Ich bin in Sicherheit, glaube ich nicht', 'ich bin in sicherheit'),
+      false
+    );
+    assert.equal(asserted("I'm safe, I don't think so", "i'm safe"), false);
+    assert.equal(asserted('Estoy a salvo, creo que no', 'estoy a salvo'), false);
+    assert.equal(asserted("I'm safe, I promise", "i'm safe"), true);
+  });
+
+  it('rejects questions', () => {
+    assert.equal(asserted("i'm safe? no", "i'm safe"), false);
+    assert.equal(asserted('¿estoy a salvo?', 'estoy a salvo'), false);
+  });
+});
@@ -0,0 +1,66 @@
+import { before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import ConversationStore from '../src/stores/ConversationStore';
+import PostCrisisTracker from '../src/services/PostCrisisTracker';
+import { PostCrisisState } from '../src/types';
+
+let conversationCount = 0;
+
+/**
+ * Start a follow-up in a new conversation, then send each message as a check-in turn
+ */
+async function followUp(language: string, ...messages: string[]): Promise<PostCrisisState | null> {
+  const conversationId = `post-crisis-${++conversationCount}`;
+  await ConversationStore.ensureConversation(conversationId, 'alice');
+  await PostCrisisTracker.recordCrisis(conversationId, false);
+
+  let state: PostCrisisState | null = null;
+  for (const message of messages) {
+    state = await PostCrisisTracker.update(conversationId, message, language);
+  }
+  return state;
+}
+
+describe('PostCrisisTracker', () => {
+  before(() => {
+    process.env.CONVERSATION_STORE = 'memory';
+    process.env.LOG_LEVEL = 'error';
+  });
+
+  it('resolves once the user is safe and has reached out', async () => {
+    const state = await followUp('en', "I called my sister and I'm safe now");
+    assert.equal(state?.status, 'RESOLVED');
+  });
+
+  it('tracks safety and reaching out across turns', async () => {
+    const state = await followUp('de', 'Ich habe meine Mutter angerufen', 'Ich bin in Sicherheit');
+    assert.equal(state?.status, 'RESOLVED');
+  });
+
+  it('does not count reaching out to nobody', async () => {
+    const english = await followUp('en', 'nobody has reached out to me');
+    assert.equal(english?.reachedOut, false);
+
+    const german = await followUp('de', 'Ich habe mit niemandem gesprochen');
+    assert.equal(german?.reachedOut, false);
+  });
+
+  it('does not count possessions or activities as reaching out', async () => {
+    const state = await followUp(
+      'de',
+      'Ich habe meine Tabletten noch hier.',
+      'Ich habe mit dem Trinken angefangen und etwas geschrieben'
+    );
+    assert.equal(state?.reachedOut, false);
+  });
+
+  it('stays active when a statement is taken back', async () => {
+    const state = await followUp(
+      'de',
+      'Ich habe niemanden angerufen. Ich bin in Sicherheit, glaube ich nicht'
+    );
+    assert.equal(state?.status, 'ACTIVE');
+    assert.equal(state?.safetyConfirmed, false);
+    assert.equal(state?.reachedOut, false);
+  });
+});
@@ -0,0 +1,65 @@
+import { before, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import RateLimiter from '../src/services/RateLimiter';
+
+describe('RateLimiter', () => {
+  before(() => {
+    process.env.RATE_LIMIT_USER_BURST = '3';
+    process.env.RATE_LIMIT_USER_PER_MINUTE = '6';
+    process.env.RATE_LIMIT_CONVERSATION_BURST = '2';
+    process.env.RATE_LIMIT_CONVERSATION_PER_MINUTE = '1';
+    process.env.RATE_LIMIT_CRISIS_MULTIPLIER = '2';
+  });
+
+  beforeEach(() => {
+    RateLimiter.reset();
+  });
+
+  it('allows a burst, then rejects with the time until the next token', () => {
+    assert.deepEqual(RateLimiter.consume({ user: 'alice' }), { allowed: true });
+    assert.deepEqual(RateLimiter.consume({ user: 'alice' }), { allowed: true });
+    assert.deepEqual(RateLimiter.consume({ user: 'alice' }), { allowed: true });
+
+    // 6 tokens per minute: one every 10 seconds
+    assert.deepEqual(RateLimiter.consume({ user: 'alice' }), {
+      allowed: false,
+      scope: 'user',
+      retryAfterSeconds: 10,
+    });
+  });
+
+  it('keeps separate buckets per key', () => {
+    RateLimiter.consume({ conversation: 'a' });
+    RateLimiter.consume({ conversation: 'a' });
+
+    assert.equal(RateLimiter.consume({ conversation: 'a' }).allowed, false);
+    assert.equal(RateLimiter.consume({ conversation: 'b' }).allowed, true);
+  });
+
+  it('takes no token at all when any bucket is empty', () => {
+    RateLimiter.consume({ user: 'alice', conversation: 'c' });
+    RateLimiter.consume({ user: 'alice', conversation: 'c' });
+
+    const denied = RateLimiter.consume({ user: 'alice', conversation: 'c' });
+    assert.equal(denied.allowed, false);
+    assert.equal(denied.allowed === false && denied.scope, 'conversation');
+
+    // The rejected call left alice's last user token in place
+    assert.equal(RateLimiter.consume({ user: 'alice' }).allowed, true);
+    assert.equal(RateLimiter.consume({ user: 'alice' }).allowed, false);
+  });
+
+  it('gives the crisis tier its own, larger but finite buckets', () => {
+    RateLimiter.consume({ conversation: 'd' });
+    RateLimiter.consume({ conversation: 'd' });
+    assert.equal(RateLimiter.consume({ conversation: 'd' }).allowed, false);
+
+    const crisisDecisions = Array.from({ length: 5 }, () =>
+      RateLimiter.consume({ conversation: 'd' }, 'crisis')
+    );
+    assert.deepEqual(
+      crisisDecisions.map((decision) => decision.allowed),
+      [true, true, true, true, false]
+    );
+  });
+});
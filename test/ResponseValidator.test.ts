@@ -0,0 +1,53 @@
+import { afterEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import ResponseValidator from '../src/services/ResponseValidator';
+
+const USER_TEXT = 'Work has been stressful this week';
+const PARTIAL_REPLY =
+  'That sounds like a really demanding week. It makes sense that you feel worn out, and it ' +
+  'might help to talk through what has been the hardest part so far';
+
+describe('ResponseValidator.validatePartial', () => {
+  afterEach(() => {
+    delete process.env.RESPONSE_JUDGE_ENABLED;
+  });
+
+  it('releases partial text except the held-back tail when the judge is off', async () => {
+    const check = await ResponseValidator.validatePartial(
+      'SUPPORTIVE',
+      USER_TEXT,
+      PARTIAL_REPLY,
+      false
+    );
+
+    assert.equal(check.validation.isSafe, true);
+    assert.ok(check.releasableLength > 0);
+    assert.ok(check.releasableLength < PARTIAL_REPLY.length);
+  });
+
+  it('releases nothing before the final check when the judge is on', async () => {
+    process.env.RESPONSE_JUDGE_ENABLED = 'true';
+
+    const check = await ResponseValidator.validatePartial(
+      'SUPPORTIVE',
+      USER_TEXT,
+      PARTIAL_REPLY,
+      false
+    );
+
+    assert.equal(check.validation.isSafe, true);
+    assert.equal(check.releasableLength, 0);
+  });
+
+  it('rejects an unsafe partial reply without releasing any of it', async () => {
+    const check = await ResponseValidator.validatePartial(
+      'SUPPORTIVE',
+      USER_TEXT,
+      `${PARTIAL_REPLY}. It sounds like you have depression`,
+      false
+    );
+
+    assert.equal(check.validation.isSafe, false);
+    assert.equal(check.releasableLength, 0);
+  });
+});
@@ -0,0 +1,43 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import bundledPack from '../src/data/rule-packs/default.json';
+import { compileRulePack } from '../src/services/RulePackRegistry';
+
+type RawPack = {
+  version: string;
+  locales: Record<string, { explicitCrisisKeywords: string[]; crisisPatterns: string[] }>;
+};
+
+/**
+ * Deep copy of the bundled pack, safe to mutate per test
+ */
+function copyPack(): RawPack {
+  return JSON.parse(JSON.stringify(bundledPack));
+}
+
+describe('compileRulePack', () => {
+  it('accepts the bundled pack', () => {
+    const pack = compileRulePack(copyPack());
+    assert.equal(pack.version, bundledPack.version);
+  });
+
+  for (const code of Object.keys(bundledPack.locales)) {
+    it(`rejects empty explicitCrisisKeywords for ${code}`, () => {
+      const raw = copyPack();
+      raw.locales[code].explicitCrisisKeywords = [];
+      assert.throws(
+        () => compileRulePack(raw),
+        new RegExp(`locales\\.${code}\\.explicitCrisisKeywords must not be empty`)
+      );
+    });
+
+    it(`rejects empty crisisPatterns for ${code}`, () => {
+      const raw = copyPack();
+      raw.locales[code].crisisPatterns = [];
+      assert.throws(
+        () => compileRulePack(raw),
+        new RegExp(`locales\\.${code}\\.crisisPatterns must not be empty`)
+      );
+    });
+  }
+});
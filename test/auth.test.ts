@@ -0,0 +1,187 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import crypto from 'node:crypto';
+import { AddressInfo } from 'node:net';
+import { Server } from 'node:http';
+import express from 'express';
+import { requireAuth, getAuth, signJwt, verifyJwt } from '../src/middleware/auth';
+import { ErrorResponse } from '../src/types';
+
+const SECRET = 'test-secret';
+
+/**
+ * Sign an arbitrary header and payload with SECRET, for tokens signJwt would never issue
+ */
+function signRaw(header: object, payload: object, secret = SECRET): string {
+  const encode = (part: object) => Buffer.from(JSON.stringify(part)).toString('base64url');
+  const unsigned = `${encode(header)}.${encode(payload)}`;
+  const signature = crypto.createHmac('sha256', secret).update(unsigned).digest('base64url');
+  return `${unsigned}.${signature}`;
+}
+
+function nowSeconds(): number {
+  return Math.floor(Date.now() / 1000);
+}
+
+describe('verifyJwt', () => {
+  before(() => {
+    process.env.LOG_LEVEL = 'error';
+  });
+
+  it('returns the subject of a valid token', () => {
+    assert.equal(verifyJwt(signJwt('alice', SECRET), SECRET), 'alice');
+  });
+
+  it('rejects a token signed with another secret', () => {
+    assert.throws(
+      () => verifyJwt(signJwt('alice', 'other-secret'), SECRET),
+      /Invalid token signature/
+    );
+  });
+
+  it('rejects a tampered payload', () => {
+    const [header, , signature] = signJwt('alice', SECRET).split('.');
+    const payload = Buffer.from(JSON.stringify({ sub: 'bob', exp: nowSeconds() + 60 })).toString(
+      'base64url'
+    );
+    assert.throws(() => verifyJwt(`${header}.${payload}.${signature}`, SECRET), /signature/);
+  });
+
+  it('rejects an expired token', () => {
+    assert.throws(
+      () => verifyJwt(signJwt('alice', SECRET, { expiresInSeconds: -120 }), SECRET),
+      /Token expired/
+    );
+  });
+
+  it('accepts a token that expired within the clock skew', () => {
+    assert.equal(verifyJwt(signJwt('alice', SECRET, { expiresInSeconds: -5 }), SECRET), 'alice');
+  });
+
+  it('rejects a token that is not yet valid', () => {
+    const token = signRaw(
+      { alg: 'HS256', typ: 'JWT' },
+      { sub: 'alice', exp: nowSeconds() + 3600, nbf: nowSeconds() + 600 }
+    );
+    assert.throws(() => verifyJwt(token, SECRET), /not yet valid/);
+  });
+
+  it('rejects a token without expiry or subject', () => {
+    const noExpiry = signRaw({ alg: 'HS256' }, { sub: 'alice' });
+    assert.throws(() => verifyJwt(noExpiry, SECRET), /no expiry/);
+
+    const noSubject = signRaw({ alg: 'HS256' }, { exp: nowSeconds() + 60 });
+    assert.throws(() => verifyJwt(noSubject, SECRET), /no subject/);
+  });
+
+  it('rejects the "none" algorithm and other algorithms', () => {
+    const payload = { sub: 'alice', exp: nowSeconds() + 60 };
+    const unsigned = signRaw({ alg: 'none' }, payload).split('.').slice(0, 2).join('.');
+    assert.throws(() => verifyJwt(`${unsigned}.`, SECRET), /Unsupported token algorithm/);
+    assert.throws(() => verifyJwt(signRaw({ alg: 'HS512' }, payload), SECRET), /algorithm/);
+  });
+
+  it('rejects malformed tokens', () => {
+    assert.throws(() => verifyJwt('not-a-token', SECRET), /Malformed token/);
+    assert.throws(() => verifyJwt('a.b.c', SECRET), /Malformed token/);
+  });
+
+  it('checks the issuer and audience when configured', () => {
+    process.env.AUTH_JWT_ISSUER = 'https://id.example.com';
+    process.env.AUTH_JWT_AUDIENCE = 'chat-api';
+    try {
+      const valid = signJwt('alice', SECRET, {
+        issuer: 'https://id.example.com',
+        audience: 'chat-api',
+      });
+      assert.equal(verifyJwt(valid, SECRET), 'alice');
+
+      const wrongIssuer = signJwt('alice', SECRET, {
+        issuer: 'https://evil.example.com',
+        audience: 'chat-api',
+      });
+      assert.throws(() => verifyJwt(wrongIssuer, SECRET), /issuer/);
+
+      const wrongAudience = signJwt('alice', SECRET, {
+        issuer: 'https://id.example.com',
+        audience: 'admin-api',
+      });
+      assert.throws(() => verifyJwt(wrongAudience, SECRET), /audience/);
+    } finally {
+      delete process.env.AUTH_JWT_ISSUER;
+      delete process.env.AUTH_JWT_AUDIENCE;
+    }
+  });
+});
+
+describe('requireAuth', () => {
+  let server: Server;
+  let baseUrl: string;
+
+  before(async () => {
+    process.env.LOG_LEVEL = 'error';
+    process.env.AUTH_JWT_SECRET = SECRET;
+    process.env.AUTH_API_KEYS = 'dev-key:carol';
+
+    const app = express();
+    app.get('/whoami', requireAuth, (_req, res) => {
+      res.json(getAuth(res));
+    });
+    server = app.listen(0);
+    await new Promise((resolve) => server.once('listening', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  after(() => {
+    server.close();
+  });
+
+  /**
+   * GET /whoami with the given headers
+   */
+  function whoami(headers: Record<string, string> = {}): Promise<globalThis.Response> {
+    return fetch(`${baseUrl}/whoami`, { headers });
+  }
+
+  it('accepts a valid bearer token', async () => {
+    const response = await whoami({ Authorization: `Bearer ${signJwt('alice', SECRET)}` });
+    assert.equal(response.status, 200);
+    assert.deepEqual(await response.json(), { userId: 'alice', method: 'jwt' });
+  });
+
+  it('accepts a configured API key outside production', async () => {
+    const response = await whoami({ 'X-API-Key': 'dev-key' });
+    assert.equal(response.status, 200);
+    assert.deepEqual(await response.json(), { userId: 'carol', method: 'apikey' });
+  });
+
+  it('rejects invalid credentials with 401', async () => {
+    const invalid: Record<string, string>[] = [
+      { Authorization: `Bearer ${signJwt('alice', 'other-secret')}` },
+      { Authorization: `Bearer ${signJwt('alice', SECRET, { expiresInSeconds: -120 })}` },
+      { 'X-API-Key': 'wrong-key' },
+    ];
+    for (const headers of invalid) {
+      const response = await whoami(headers);
+      assert.equal(response.status, 401);
+      assert.equal(response.headers.get('www-authenticate'), 'Bearer');
+      assert.equal(((await response.json()) as ErrorResponse).code, 'UNAUTHORIZED');
+    }
+  });
+
+  it('rejects a request without credentials with 401', async () => {
+    const response = await whoami();
+    assert.equal(response.status, 401);
+    assert.equal(((await response.json()) as ErrorResponse).message, 'Authentication required');
+  });
+
+  it('never accepts API keys in production', async () => {
+    process.env.NODE_ENV = 'production';
+    try {
+      const response = await whoami({ 'X-API-Key': 'dev-key' });
+      assert.equal(response.status, 401);
+    } finally {
+      delete process.env.NODE_ENV;
+    }
+  });
+});
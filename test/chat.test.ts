@@ -0,0 +1,126 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { AddressInfo } from 'node:net';
+import { Server } from 'node:http';
+import express from 'express';
+import chatRouter from '../src/routes/chat';
+import { requireAuth, signJwt } from '../src/middleware/auth';
+import ConversationStore from '../src/stores/ConversationStore';
+import { ErrorResponse } from '../src/types';
+
+const SECRET = 'test-secret';
+
+describe('chat routes: conversation ownership', () => {
+  let server: Server;
+  let baseUrl: string;
+
+  before(async () => {
+    process.env.LOG_LEVEL = 'error';
+    process.env.AUTH_JWT_SECRET = SECRET;
+    process.env.CONVERSATION_STORE = 'memory';
+    process.env.AUDIT_LOG = 'memory';
+    process.env.LLM_PROVIDER = 'stub';
+
+    const app = express();
+    app.use(express.json());
+    app.use('/v1/chat', requireAuth, chatRouter);
+    server = app.listen(0);
+    await new Promise((resolve) => server.once('listening', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  after(() => {
+    server.close();
+  });
+
+  /**
+   * Call the chat API as userId
+   */
+  function request(
+    userId: string,
+    method: string,
+    path: string,
+    body?: object
+  ): Promise<globalThis.Response> {
+    return fetch(`${baseUrl}/v1/chat${path}`, {
+      method,
+      headers: {
+        Authorization: `Bearer ${signJwt(userId, SECRET)}`,
+        'Content-Type': 'application/json',
+      },
+      body: body && JSON.stringify(body),
+    });
+  }
+
+  async function expectForbidden(response: globalThis.Response): Promise<void> {
+    assert.equal(response.status, 403);
+    assert.equal(((await response.json()) as ErrorResponse).code, 'FORBIDDEN');
+  }
+
+  it('gives a new conversation to the user who sends its first message', async () => {
+    const response = await request('alice', 'POST', '/send', {
+      conversationId: 'owned-by-alice',
+      message: 'Hi, I had a long day',
+    });
+
+    assert.equal(response.status, 200);
+    const conversation = await ConversationStore.getConversation('owned-by-alice');
+    assert.equal(conversation?.ownerId, 'alice');
+  });
+
+  it("rejects posts to another user's conversation without storing them", async () => {
+    await request('alice', 'POST', '/send', { conversationId: 'private', message: 'Hello' });
+
+    await expectForbidden(
+      await request('bob', 'POST', '/send', { conversationId: 'private', message: 'Hi there' })
+    );
+    await expectForbidden(
+      await request('bob', 'POST', '/stream', { conversationId: 'private', message: 'Hi there' })
+    );
+
+    const conversation = await ConversationStore.getConversation('private');
+    assert.ok(conversation?.messages.every((m) => m.content !== 'Hi there'));
+  });
+
+  it("rejects reading, exporting and deleting another user's conversation", async () => {
+    await request('alice', 'POST', '/send', { conversationId: 'diary', message: 'Hello' });
+
+    await expectForbidden(await request('bob', 'GET', '/history?conversationId=diary'));
+    await expectForbidden(await request('bob', 'GET', '/conversations/diary/export'));
+    await expectForbidden(await request('bob', 'DELETE', '/conversations/diary'));
+    assert.notEqual(await ConversationStore.getConversation('diary'), null);
+
+    const deleted = await request('alice', 'DELETE', '/conversations/diary');
+    assert.equal(deleted.status, 204);
+  });
+
+  it('rejects a body userId that differs from the authenticated user', async () => {
+    await expectForbidden(
+      await request('bob', 'POST', '/send', {
+        conversationId: 'impersonation',
+        userId: 'alice',
+        message: 'Hello',
+      })
+    );
+    assert.equal(await ConversationStore.getConversation('impersonation'), null);
+  });
+});
+
+describe('ConversationStore.ensureConversation', () => {
+  before(() => {
+    process.env.CONVERSATION_STORE = 'memory';
+  });
+
+  it('keeps the first owner of a conversation', async () => {
+    assert.equal(await ConversationStore.ensureConversation('first-come', 'alice'), 'alice');
+    assert.equal(await ConversationStore.ensureConversation('first-come', 'bob'), 'alice');
+  });
+
+  it('assigns a single owner to concurrent first messages', async () => {
+    const owners = await Promise.all([
+      ConversationStore.ensureConversation('race', 'alice'),
+      ConversationStore.ensureConversation('race', 'bob'),
+    ]);
+    assert.deepEqual(owners, ['alice', 'alice']);
+  });
+});
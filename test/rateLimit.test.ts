@@ -0,0 +1,113 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { AddressInfo } from 'node:net';
+import { Server } from 'node:http';
+import express from 'express';
+import chatRouter from '../src/routes/chat';
+import { requireAuth, signJwt } from '../src/middleware/auth';
+import { ChatResponse, ErrorResponse } from '../src/types';
+
+const SECRET = 'test-secret';
+const CRISIS_MESSAGE = 'I want to kill myself';
+
+describe('limitChatMessages', () => {
+  let server: Server;
+  let baseUrl: string;
+
+  before(async () => {
+    process.env.LOG_LEVEL = 'error';
+    process.env.AUTH_JWT_SECRET = SECRET;
+    process.env.CONVERSATION_STORE = 'memory';
+    process.env.AUDIT_LOG = 'memory';
+    process.env.LLM_PROVIDER = 'stub';
+    process.env.RATE_LIMIT_USER_BURST = '100';
+    process.env.RATE_LIMIT_IP_BURST = '100';
+    process.env.RATE_LIMIT_CONVERSATION_BURST = '2';
+    process.env.RATE_LIMIT_CONVERSATION_PER_MINUTE = '1';
+    process.env.RATE_LIMIT_CRISIS_MULTIPLIER = '2';
+    process.env.MAX_MESSAGE_LENGTH = '200';
+
+    const app = express();
+    app.use(express.json());
+    app.use('/v1/chat', requireAuth, chatRouter);
+    server = app.listen(0);
+    await new Promise((resolve) => server.once('listening', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  after(() => {
+    server.close();
+  });
+
+  /**
+   * POST /v1/chat/send as userId
+   */
+  function send(
+    userId: string,
+    conversationId: string,
+    message: string
+  ): Promise<globalThis.Response> {
+    return fetch(`${baseUrl}/v1/chat/send`, {
+      method: 'POST',
+      headers: {
+        Authorization: `Bearer ${signJwt(userId, SECRET)}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ conversationId, message }),
+    });
+  }
+
+  /**
+   * Status codes of sending each message in order
+   */
+  async function sendAll(conversationId: string, messages: string[]): Promise<number[]> {
+    const statuses: number[] = [];
+    for (const message of messages) {
+      statuses.push((await send('alice', conversationId, message)).status);
+    }
+    return statuses;
+  }
+
+  it('rejects messages over the conversation limit with 429 and Retry-After', async () => {
+    assert.deepEqual(await sendAll('busy', ['Hi', 'How are you?']), [200, 200]);
+
+    const response = await send('alice', 'busy', 'Tell me a joke');
+    assert.equal(response.status, 429);
+    assert.equal(response.headers.get('retry-after'), '60');
+    const body = (await response.json()) as ErrorResponse;
+    assert.equal(body.code, 'RATE_LIMITED');
+    assert.equal(body.retryAfterSeconds, 60);
+  });
+
+  it('always answers a CRISIS message, even over the limit', async () => {
+    await sendAll('exempt', ['Hi', 'How are you?', 'Tell me a joke']);
+
+    const response = await send('alice', 'exempt', CRISIS_MESSAGE);
+    assert.equal(response.status, 200);
+    assert.equal(((await response.json()) as ChatResponse).mode, 'CRISIS');
+  });
+
+  it('limits other turns of a conversation in crisis with the crisis buckets', async () => {
+    await sendAll('in-crisis', ['Hi', 'How are you?', 'Tell me a joke']);
+    await send('alice', 'in-crisis', CRISIS_MESSAGE);
+
+    // Crisis tier: 2 x 2 tokens, separate from the exhausted standard bucket
+    const statuses = await sendAll('in-crisis', ['Thanks', 'Still here', 'Okay', 'Hm', 'Hello?']);
+    assert.deepEqual(statuses, [200, 200, 200, 200, 429]);
+  });
+
+  it('enforces the length cap on CRISIS messages too', async () => {
+    const response = await send('alice', 'long', `${CRISIS_MESSAGE}. ${'a'.repeat(200)}`);
+    assert.equal(response.status, 413);
+    assert.equal(((await response.json()) as ErrorResponse).code, 'PAYLOAD_TOO_LARGE');
+  });
+
+  it("does not spend the owner's tokens on another user's rejected posts", async () => {
+    assert.equal((await send('alice', 'shared', 'Hi')).status, 200);
+
+    for (let i = 0; i < 3; i++) {
+      assert.equal((await send('bob', 'shared', 'Let me in')).status, 403);
+    }
+    assert.equal((await send('alice', 'shared', 'Are you there?')).status, 200);
+  });
+});